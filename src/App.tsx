@@ -1,59 +1,92 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/layout/Header';
 import { InteractiveGraph } from './components/graph/InteractiveGraph';
 import { RelationshipSelector } from './components/controls/RelationshipSelector';
 import { SexSelector } from './components/controls/SexSelector';
+import { PedigreeFiles } from './components/controls/PedigreeFiles';
+import { HistoryPanel } from './components/controls/HistoryPanel';
 import { ProbabilityDisplay } from './components/results/ProbabilityDisplay';
+import { KinshipHeatmap } from './components/results/KinshipHeatmap';
+import { RecessiveRiskCard } from './components/results/RecessiveRiskCard';
+import { GeneDropHistogram } from './components/results/GeneDropHistogram';
+import { AncestralPathsCard } from './components/results/AncestralPathsCard';
+import { SegmentSharingCard } from './components/results/SegmentSharingCard';
+import { RelationshipInference } from './components/results/RelationshipInference';
 import {
   generateBasePedigree,
   calculateFromPedigree,
+  listContributingPaths,
+  removeDefinedRelationship,
   type DynamicPedigree,
 } from './lib/dynamic-pedigree';
-import { BASE_COEFFICIENTS, xLinkedCoefficient, yLinkedCoefficient } from './lib/genetics';
+import { BASE_COEFFICIENTS } from './lib/genetics';
+import { calculateXLinkedFromPedigree, calculateLineageSharing } from './lib/sex-linked';
+import { calculateIdentityCoefficients } from './lib/identity-coefficients';
+import { serializeProject, type Project } from './lib/project-file';
+import { projectFromHash, projectToHash } from './lib/url-state';
+import { validatePedigree } from './lib/pedigree-validation';
+import {
+  createHistory,
+  currentEntry,
+  goToHistory,
+  pushHistory,
+  redo,
+  undo,
+  type PedigreeHistory,
+} from './lib/pedigree-history';
 import type { RelationshipType, Sex } from './types';
 import './App.css';
 
 function App() {
-  const [baseRelationship, setBaseRelationship] = useState<RelationshipType>('first-cousins');
-  const [person1Sex, setPerson1Sex] = useState<Sex>('M');
-  const [person2Sex, setPerson2Sex] = useState<Sex>('F');
-
-  // Initialize pedigree from base relationship
-  const [pedigree, setPedigree] = useState<DynamicPedigree>(() =>
-    generateBasePedigree(baseRelationship, person1Sex, person2Sex)
+  const [history, setHistory] = useState<PedigreeHistory>(() =>
+    createHistory(generateBasePedigree('first-cousins', 'M', 'F'), 'first-cousins', 'Start')
   );
+  const [showMatrix, setShowMatrix] = useState(false);
+  // Ancestral path traced in the graph: the hovered one, else the selected one
+  const [hoveredPath, setHoveredPath] = useState<string[] | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string[] | null>(null);
+  const [showPaths, setShowPaths] = useState(false);
+
+  const { pedigree, baseRelationship } = currentEntry(history);
+  const person1Sex = pedigree.persons.get(pedigree.targetPair[0])?.sex ?? 'M';
+  const person2Sex = pedigree.persons.get(pedigree.targetPair[1])?.sex ?? 'F';
+
+  // Every pedigree change goes through the undo history
+  const setPedigree = useCallback((
+    update: DynamicPedigree | ((prev: DynamicPedigree) => DynamicPedigree),
+    label?: string
+  ) => {
+    setHistory(prev => pushHistory(
+      prev,
+      typeof update === 'function' ? update(currentEntry(prev).pedigree) : update,
+      label
+    ));
+  }, []);
 
   // Regenerate pedigree when base relationship changes
   const handleRelationshipChange = useCallback((newRelationship: RelationshipType) => {
-    setBaseRelationship(newRelationship);
-    setPedigree(generateBasePedigree(newRelationship, person1Sex, person2Sex));
+    setHistory(prev => pushHistory(
+      prev,
+      generateBasePedigree(newRelationship, person1Sex, person2Sex),
+      `Base relationship: ${newRelationship.replace(/-/g, ' ')}`,
+      newRelationship
+    ));
   }, [person1Sex, person2Sex]);
 
-  // Handle sex changes
-  const handlePerson1SexChange = useCallback((sex: Sex) => {
-    setPerson1Sex(sex);
-    // Update the target person's sex in the pedigree
+  // Set the sex of one of the target pair
+  const setTargetSex = useCallback((index: 0 | 1, sex: Sex) => {
     setPedigree(prev => {
       const newPersons = new Map(prev.persons);
-      const p1 = newPersons.get(prev.targetPair[0]);
-      if (p1) {
-        newPersons.set(prev.targetPair[0], { ...p1, sex });
+      const person = newPersons.get(prev.targetPair[index]);
+      if (person) {
+        newPersons.set(prev.targetPair[index], { ...person, sex, sexUnknown: undefined });
       }
       return { ...prev, persons: newPersons };
     });
-  }, []);
+  }, [setPedigree]);
 
-  const handlePerson2SexChange = useCallback((sex: Sex) => {
-    setPerson2Sex(sex);
-    setPedigree(prev => {
-      const newPersons = new Map(prev.persons);
-      const p2 = newPersons.get(prev.targetPair[1]);
-      if (p2) {
-        newPersons.set(prev.targetPair[1], { ...p2, sex });
-      }
-      return { ...prev, persons: newPersons };
-    });
-  }, []);
+  const handlePerson1SexChange = useCallback((sex: Sex) => setTargetSex(0, sex), [setTargetSex]);
+  const handlePerson2SexChange = useCallback((sex: Sex) => setTargetSex(1, sex), [setTargetSex]);
 
   // Toggle sex from graph click
   const handlePersonSexToggle = useCallback((personId: string) => {
@@ -61,23 +94,130 @@ function App() {
       const newPersons = new Map(prev.persons);
       const person = newPersons.get(personId);
       if (person) {
-        const newSex = person.sex === 'M' ? 'F' : 'M';
-        newPersons.set(personId, { ...person, sex: newSex });
-
-        // Update tracked sex if it's a target
-        if (personId === prev.targetPair[0]) {
-          setPerson1Sex(newSex);
-        } else if (personId === prev.targetPair[1]) {
-          setPerson2Sex(newSex);
-        }
+        newPersons.set(personId, { ...person, sex: person.sex === 'M' ? 'F' : 'M', sexUnknown: undefined });
       }
       return { ...prev, persons: newPersons };
     });
+  }, [setPedigree]);
+
+  // Make a different pair the target pair (from the kinship matrix)
+  const handleSelectPair = useCallback((person1Id: string, person2Id: string) => {
+    setPedigree(prev => (prev.persons.has(person1Id) && prev.persons.has(person2Id)
+      ? { ...prev, targetPair: [person1Id, person2Id] }
+      : prev));
+  }, [setPedigree]);
+
+  // Replace the pedigree with one loaded from a file
+  const handleImport = useCallback((imported: DynamicPedigree) => {
+    setPedigree(imported, 'Imported file');
+  }, [setPedigree]);
+
+  // Restore a saved project
+  const handleOpenProject = useCallback((project: Project, label = 'Opened project') => {
+    setHistory(prev => pushHistory(prev, project.pedigree, label, project.baseRelationship));
   }, []);
 
+  // Take back one defined relationship, with the merges it made
+  const handleRemoveRelationship = useCallback((index: number) => {
+    setPedigree(prev => removeDefinedRelationship(prev, index));
+  }, [setPedigree]);
+
+  const handleUndo = useCallback(() => setHistory(undo), []);
+  const handleRedo = useCallback(() => setHistory(redo), []);
+  const handleHistorySelect = useCallback((index: number) => {
+    setHistory(prev => goToHistory(prev, index));
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Keep the URL hash in sync with the scenario, so links reopen it and
+  // back/forward step through edits. Holds the project JSON the URL shows.
+  const urlProjectRef = useRef('');
+  const [urlReady, setUrlReady] = useState(false);
+  // A link that could not be loaded stays in the address bar until the first edit
+  const keepLinkRef = useRef(false);
+  const [linkErrors, setLinkErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    const restore = async (isInitial: boolean) => {
+      const result = await projectFromHash(window.location.hash);
+      setLinkErrors(result && !result.project ? result.errors : []);
+      if (result && !result.project && isInitial) keepLinkRef.current = true;
+      if (result?.project) {
+        urlProjectRef.current = serializeProject(result.project, true);
+        if (isInitial) {
+          setHistory(createHistory(result.project.pedigree, result.project.baseRelationship, 'Opened link'));
+        } else {
+          handleOpenProject(result.project, 'Back/forward');
+        }
+      }
+      // Without a scenario in the link, the starting state gets recorded instead
+      // (but a damaged link is left in place, see keepLinkRef)
+      if (isInitial) setUrlReady(true);
+    };
+
+    restore(true);
+    const handlePopState = () => restore(false);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [handleOpenProject]);
+
+  useEffect(() => {
+    // Wait until the initial link has been read
+    if (!urlReady) return;
+
+    const project = { pedigree, baseRelationship };
+    const json = serializeProject(project, true);
+    if (json === urlProjectRef.current) return;
+
+    const isFirstEntry = urlProjectRef.current === '';
+    urlProjectRef.current = json;
+    if (keepLinkRef.current) {
+      keepLinkRef.current = false;
+      return;
+    }
+    let cancelled = false;
+    projectToHash(project).then(hash => {
+      if (cancelled) return;
+      if (isFirstEntry) {
+        window.history.replaceState(null, '', hash);
+      } else {
+        window.history.pushState(null, '', hash);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [pedigree, baseRelationship, urlReady]);
+
+  // Trace Y and mtDNA lineages of the target pair
+  const lineage = useMemo(() => calculateLineageSharing(pedigree), [pedigree]);
+  const diagnostics = useMemo(() => validatePedigree(pedigree), [pedigree]);
+
   // Calculate probabilities from the dynamic pedigree
+  const pedigreeResult = useMemo(() => calculateFromPedigree(pedigree), [pedigree]);
+
+  // The slower figures depend only on the structure and the target pair,
+  // not on labels or phenotypes
+  const { edges, merges, targetPair } = pedigree;
+  const identityCoefficients = useMemo(
+    () => calculateIdentityCoefficients({ edges, merges, targetPair }),
+    [edges, merges, targetPair]
+  );
   const probabilityResult = useMemo(() => {
-    const result = calculateFromPedigree(pedigree);
     const baseR = BASE_COEFFICIENTS[baseRelationship] || 0.125;
 
     const p1 = pedigree.persons.get(pedigree.targetPair[0]);
@@ -88,20 +228,35 @@ function App() {
     let yLinked: number | null = null;
 
     if (p1 && p2) {
-      xLinked = xLinkedCoefficient(p1, p2, baseRelationship);
-      yLinked = yLinkedCoefficient(p1, p2, baseRelationship);
+      xLinked = calculateXLinkedFromPedigree(pedigree);
+      yLinked = lineage.yShared === null ? null : Number(lineage.yShared);
     }
 
     return {
-      coefficientOfRelationship: result.coefficientOfRelationship,
-      geneOverlapProbability: result.coefficientOfRelationship,
-      inbreedingCoefficient: result.inbreedingCoefficient,
+      coefficientOfRelationship: pedigreeResult.coefficientOfRelationship,
+      geneOverlapProbability: pedigreeResult.coefficientOfRelationship,
+      inbreedingCoefficient: pedigreeResult.inbreedingCoefficient,
       xLinkedCoefficient: xLinked,
       yLinkedCoefficient: yLinked,
+      mitochondrialCoefficient: Number(lineage.mtShared),
+      identityCoefficients,
       baselineR: baseR,
-      deltaFromBaseline: result.coefficientOfRelationship - baseR,
+      deltaFromBaseline: pedigreeResult.coefficientOfRelationship - baseR,
     };
-  }, [pedigree, baseRelationship]);
+  }, [pedigree, pedigreeResult, identityCoefficients, baseRelationship, lineage]);
+
+  // Ancestral paths are only listed while the panel is open
+  const pathListing = useMemo(
+    () => (showPaths ? listContributingPaths({ edges, merges, targetPair }) : null),
+    [showPaths, edges, merges, targetPair]
+  );
+
+  // A selected path that no longer exists after an edit is dropped
+  const pathExists = (path: string[] | null) => path !== null && !!pathListing?.paths.some(
+    p => p.personIds.join('>') === path.join('>')
+  );
+  const currentSelectedPath = pathExists(selectedPath) ? selectedPath : null;
+  const highlightedPath = (pathExists(hoveredPath) ? hoveredPath : null) ?? currentSelectedPath ?? undefined;
 
   // Get labels for targets
   const personLabels = useMemo(() => {
@@ -113,6 +268,10 @@ function App() {
     };
   }, [pedigree]);
 
+  const exportCaption = `${personLabels.person1} ↔ ${personLabels.person2}: `
+    + `r = ${probabilityResult.coefficientOfRelationship.toFixed(4)}, `
+    + `F = ${probabilityResult.inbreedingCoefficient.toFixed(4)}`;
+
   // Count defined relationships
   const definedRelationshipsCount = pedigree.definedRelationships.length;
 
@@ -135,7 +294,20 @@ function App() {
               pedigree={pedigree}
               onPedigreeChange={setPedigree}
               onPersonSexToggle={handlePersonSexToggle}
+              lineage={lineage}
+              diagnostics={diagnostics}
+              exportCaption={exportCaption}
+              highlightedPath={highlightedPath}
             />
+            <div className="section-header">
+              <h2 className="section-title">Kinship Matrix</h2>
+              <button className="btn btn-secondary" onClick={() => setShowMatrix(!showMatrix)}>
+                {showMatrix ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            {showMatrix && (
+              <KinshipHeatmap pedigree={pedigree} onSelectPair={handleSelectPair} />
+            )}
           </section>
 
           <aside className="app-sidebar">
@@ -161,6 +333,17 @@ function App() {
               />
             </div>
 
+            <div className="sidebar-section">
+              <PedigreeFiles
+                pedigree={pedigree}
+                baseRelationship={baseRelationship}
+                onImport={handleImport}
+                onOpenProject={handleOpenProject}
+                linkErrors={linkErrors}
+                onDismissLinkErrors={() => setLinkErrors([])}
+              />
+            </div>
+
             {/* Defined relationships summary */}
             {pedigree.definedRelationships.length > 0 && (
               <div className="sidebar-section">
@@ -172,18 +355,37 @@ function App() {
                         {pedigree.persons.get(rel.person1Id)?.label} ↔ {pedigree.persons.get(rel.person2Id)?.label}
                       </span>
                       <span className="defined-relationship-type">{rel.type}</span>
+                      <button
+                        className="relationship-close defined-relationship-remove"
+                        title="Remove this relationship"
+                        onClick={() => handleRemoveRelationship(index)}
+                      >
+                        ×
+                      </button>
                     </div>
                   ))}
                 </div>
                 <button
                   className="btn btn-secondary reset-btn"
-                  onClick={() => setPedigree(generateBasePedigree(baseRelationship, person1Sex, person2Sex))}
+                  onClick={() => setPedigree(
+                    generateBasePedigree(baseRelationship, person1Sex, person2Sex),
+                    'Reset relationships'
+                  )}
                 >
                   Reset Relationships
                 </button>
               </div>
             )}
 
+            <div className="sidebar-section">
+              <HistoryPanel
+                history={history}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onSelect={handleHistorySelect}
+              />
+            </div>
+
             <div className="sidebar-section results-section">
               <ProbabilityDisplay
                 result={probabilityResult}
@@ -191,6 +393,42 @@ function App() {
                 person2Label={personLabels.person2}
               />
             </div>
+
+            <div className="sidebar-section">
+              <AncestralPathsCard
+                listing={pathListing}
+                onToggle={() => setShowPaths(!showPaths)}
+                coefficientOfRelationship={pedigreeResult.coefficientOfRelationship}
+                labelOf={(id) => pedigree.persons.get(id)?.label ?? id}
+                selectedPath={currentSelectedPath}
+                onHover={setHoveredPath}
+                onSelect={setSelectedPath}
+              />
+            </div>
+
+            <div className="sidebar-section">
+              <RecessiveRiskCard
+                pedigree={pedigree}
+                person1Label={personLabels.person1}
+                person2Label={personLabels.person2}
+              />
+            </div>
+
+            <div className="sidebar-section">
+              <GeneDropHistogram
+                pedigree={pedigree}
+                expectedRelatedness={probabilityResult.coefficientOfRelationship}
+                expectedInbreeding={probabilityResult.inbreedingCoefficient}
+              />
+            </div>
+
+            <div className="sidebar-section">
+              <SegmentSharingCard pedigree={pedigree} identity={identityCoefficients} />
+            </div>
+
+            <div className="sidebar-section">
+              <RelationshipInference />
+            </div>
           </aside>
         </div>
       </main>
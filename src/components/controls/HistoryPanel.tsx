@@ -0,0 +1,53 @@
+import { canRedo, canUndo, type PedigreeHistory } from '../../lib/pedigree-history';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+    history: PedigreeHistory;
+    onUndo: () => void;
+    onRedo: () => void;
+    onSelect: (index: number) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl+';
+
+export function HistoryPanel({ history, onUndo, onRedo, onSelect }: HistoryPanelProps) {
+    return (
+        <div className="history-panel">
+            <div className="history-header">
+                <label className="label">History</label>
+                <div className="history-actions">
+                    <button
+                        className="btn btn-secondary"
+                        disabled={!canUndo(history)}
+                        title={`Undo (${MOD}Z)`}
+                        onClick={onUndo}
+                    >
+                        Undo
+                    </button>
+                    <button
+                        className="btn btn-secondary"
+                        disabled={!canRedo(history)}
+                        title={`Redo (${MOD}Shift+Z)`}
+                        onClick={onRedo}
+                    >
+                        Redo
+                    </button>
+                </div>
+            </div>
+
+            <ol className="history-list">
+                {history.entries.map((entry, index) => (
+                    <li key={index}>
+                        <button
+                            className={`history-item ${index === history.index ? 'current' : ''} ${index > history.index ? 'undone' : ''}`}
+                            onClick={() => onSelect(index)}
+                        >
+                            {entry.label}
+                        </button>
+                    </li>
+                )).reverse()}
+            </ol>
+        </div>
+    );
+}
@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import type { DynamicPedigree, PedigreeImportResult } from '../../lib/dynamic-pedigree';
+import { parseGedcom, pedigreeToGedcom } from '../../lib/gedcom';
+import { parsePedFile, pedigreeToPedFile } from '../../lib/plink';
+import { deserializeProject, serializeProject, type Project } from '../../lib/project-file';
+import type { RelationshipType } from '../../types';
+import { downloadFile } from '../../lib/download';
+import './PedigreeFiles.css';
+
+interface PedigreeFilesProps {
+    pedigree: DynamicPedigree;
+    baseRelationship: RelationshipType;
+    onImport: (pedigree: DynamicPedigree) => void;
+    onOpenProject: (project: Project) => void;
+    /** Why the shared link the page was opened with could not be loaded */
+    linkErrors?: string[];
+    onDismissLinkErrors?: () => void;
+}
+
+interface ImportReport {
+    fileName: string;
+    imported: boolean;
+    messages: string[];
+}
+
+export function PedigreeFiles({
+    pedigree,
+    baseRelationship,
+    onImport,
+    onOpenProject,
+    linkErrors = [],
+    onDismissLinkErrors,
+}: PedigreeFilesProps) {
+    const projectInput = useRef<HTMLInputElement>(null);
+    const gedcomInput = useRef<HTMLInputElement>(null);
+    const pedInput = useRef<HTMLInputElement>(null);
+    const [fileReport, setFileReport] = useState<ImportReport | null>(null);
+
+    // A file report takes the place of the shared link's
+    const report = fileReport ?? (linkErrors.length > 0
+        ? { fileName: 'the shared link', imported: false, messages: linkErrors }
+        : null);
+    const dismissReport = () => (fileReport ? setFileReport(null) : onDismissLinkErrors?.());
+
+    const handleFile = async (file: File, parse: (text: string) => PedigreeImportResult) => {
+        const result = parse(await file.text());
+        if (result.pedigree) onImport(result.pedigree);
+        setFileReport({ fileName: file.name, imported: result.pedigree !== null, messages: result.skipped });
+    };
+
+    const handleProjectFile = async (file: File) => {
+        const result = deserializeProject(await file.text());
+        if (result.project) onOpenProject(result.project);
+        setFileReport({ fileName: file.name, imported: result.project !== null, messages: result.errors });
+    };
+
+    return (
+        <div className="pedigree-files">
+            <label className="label">Files</label>
+            <p className="pedigree-files-description">
+                Save your work, or exchange pedigrees with genealogy software and genetics tools
+            </p>
+
+            <div className="pedigree-files-row">
+                <span className="pedigree-files-format">Project</span>
+                <button className="btn btn-secondary" onClick={() => projectInput.current?.click()}>
+                    Open
+                </button>
+                <button
+                    className="btn btn-secondary"
+                    onClick={() => downloadFile(
+                        'pedigree-project.json',
+                        serializeProject({ pedigree, baseRelationship }),
+                        'application/json'
+                    )}
+                >
+                    Save
+                </button>
+                <input
+                    ref={projectInput}
+                    type="file"
+                    accept=".json,application/json"
+                    hidden
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleProjectFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            <div className="pedigree-files-row">
+                <span className="pedigree-files-format">GEDCOM</span>
+                <button className="btn btn-secondary" onClick={() => gedcomInput.current?.click()}>
+                    Import
+                </button>
+                <button
+                    className="btn btn-secondary"
+                    onClick={() => downloadFile('pedigree.ged', pedigreeToGedcom(pedigree), 'text/plain')}
+                >
+                    Export
+                </button>
+                <input
+                    ref={gedcomInput}
+                    type="file"
+                    accept=".ged,.gedcom"
+                    hidden
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file, parseGedcom);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            <div className="pedigree-files-row">
+                <span className="pedigree-files-format">PLINK / LINKAGE</span>
+                <button className="btn btn-secondary" onClick={() => pedInput.current?.click()}>
+                    Import
+                </button>
+                <button
+                    className="btn btn-secondary"
+                    title="PLINK .fam (six columns)"
+                    onClick={() => downloadFile('pedigree.fam', pedigreeToPedFile(pedigree, 'fam'), 'text/plain')}
+                >
+                    .fam
+                </button>
+                <button
+                    className="btn btn-secondary"
+                    title="LINKAGE .ped with each individual's inbreeding coefficient F as a seventh column"
+                    onClick={() => downloadFile('pedigree.ped', pedigreeToPedFile(pedigree, 'ped', true), 'text/plain')}
+                >
+                    .ped
+                </button>
+                <input
+                    ref={pedInput}
+                    type="file"
+                    accept=".fam,.ped,.txt"
+                    hidden
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file, parsePedFile);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            {report && (
+                <div className={`pedigree-files-report ${report.imported ? '' : 'failed'}`}>
+                    <div className="pedigree-files-report-header">
+                        <span>
+                            {report.imported ? 'Loaded' : 'Could not load'} {report.fileName}
+                        </span>
+                        <button className="relationship-close" onClick={dismissReport}>×</button>
+                    </div>
+                    {report.messages.length > 0 && (
+                        <ul className="pedigree-files-messages">
+                            {report.messages.map((message, i) => (
+                                <li key={i}>{message}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import { themeColor, type NodePosition } from '../../lib/pedigree-drawing';
+import { centerOn, zoomAt, type Bounds, type ViewTransform } from '../../lib/view-transform';
+import './GraphNavigator.css';
+
+interface GraphNavigatorProps {
+    /** World positions of the persons */
+    positions: Map<string, NodePosition>;
+    targetPair: string[];
+    bounds: Bounds;
+    view: ViewTransform;
+    viewport: { width: number; height: number };
+    onViewChange: (view: ViewTransform) => void;
+    onFit: () => void;
+    /** Discard manual node positions; the button shows only when this is given */
+    onRelayout?: () => void;
+}
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 100;
+const ZOOM_STEP = 1.25;
+
+/**
+ * Zoom buttons, fit-to-view and, when the drawing does not fit, a minimap
+ * showing the visible area; clicking or dragging on the minimap moves the view
+ */
+export function GraphNavigator({
+    positions,
+    targetPair,
+    bounds,
+    view,
+    viewport,
+    onViewChange,
+    onFit,
+    onRelayout,
+}: GraphNavigatorProps) {
+    const minimapRef = useRef<HTMLCanvasElement>(null);
+
+    // World rectangle currently on screen
+    const visible = {
+        x: -view.offsetX / view.scale,
+        y: -view.offsetY / view.scale,
+        width: viewport.width / view.scale,
+        height: viewport.height / view.scale,
+    };
+    const fitsInView = bounds.minX >= visible.x && bounds.minY >= visible.y
+        && bounds.maxX <= visible.x + visible.width && bounds.maxY <= visible.y + visible.height;
+
+    // Minimap scale and offset for the whole drawing
+    const boundsWidth = Math.max(1, bounds.maxX - bounds.minX);
+    const boundsHeight = Math.max(1, bounds.maxY - bounds.minY);
+    const mapScale = Math.min((MINIMAP_WIDTH - 8) / boundsWidth, (MINIMAP_HEIGHT - 8) / boundsHeight);
+    const mapX = (MINIMAP_WIDTH - boundsWidth * mapScale) / 2 - bounds.minX * mapScale;
+    const mapY = (MINIMAP_HEIGHT - boundsHeight * mapScale) / 2 - bounds.minY * mapScale;
+
+    useEffect(() => {
+        const canvas = minimapRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = MINIMAP_WIDTH * dpr;
+        canvas.height = MINIMAP_HEIGHT * dpr;
+        ctx.scale(dpr, dpr);
+        ctx.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+
+        positions.forEach((pos, id) => {
+            ctx.beginPath();
+            ctx.arc(mapX + pos.x * mapScale, mapY + pos.y * mapScale, 2.5, 0, Math.PI * 2);
+            ctx.fillStyle = themeColor(targetPair.includes(id) ? '--accent-primary' : '--text-secondary');
+            ctx.fill();
+        });
+
+        ctx.strokeStyle = themeColor('--accent-secondary');
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(
+            mapX + visible.x * mapScale,
+            mapY + visible.y * mapScale,
+            visible.width * mapScale,
+            visible.height * mapScale
+        );
+    });
+
+    // Centre the view on the minimap point under the mouse
+    const navigate = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const worldX = (e.clientX - rect.left - mapX) / mapScale;
+        const worldY = (e.clientY - rect.top - mapY) / mapScale;
+        onViewChange(centerOn(view, worldX, worldY, viewport.width, viewport.height));
+    };
+
+    const zoom = (factor: number) =>
+        onViewChange(zoomAt(view, factor, viewport.width / 2, viewport.height / 2));
+
+    return (
+        <div className="graph-navigator" onClick={(e) => e.stopPropagation()}>
+            {!fitsInView && (
+                <canvas
+                    ref={minimapRef}
+                    className="graph-minimap"
+                    style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT }}
+                    onMouseDown={navigate}
+                    onMouseMove={(e) => { if (e.buttons & 1) navigate(e); }}
+                />
+            )}
+            <div className="graph-zoom-controls">
+                <button className="graph-zoom-button" title="Zoom out" onClick={() => zoom(1 / ZOOM_STEP)}>−</button>
+                <span className="graph-zoom-level">{Math.round(view.scale * 100)}%</span>
+                <button className="graph-zoom-button" title="Zoom in" onClick={() => zoom(ZOOM_STEP)}>+</button>
+                <button className="graph-zoom-button fit" title="Fit the pedigree in view" onClick={onFit}>Fit</button>
+                {onRelayout && (
+                    <button
+                        className="graph-zoom-button fit"
+                        title="Discard manual positions and lay the pedigree out again"
+                        onClick={onRelayout}
+                    >
+                        Re-layout
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,28 +1,63 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import type { Person } from '../../types';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type { DynamicPedigree, NodeRelationship } from '../../lib/dynamic-pedigree';
-import { pedigreeToGraph, getRelationshipOptions, addRelationship } from '../../lib/dynamic-pedigree';
+import {
+    pedigreeToGraph,
+    getRelationshipOptions,
+    addRelationship,
+    buildParentMap,
+    setPersonPosition,
+    hasManualPositions,
+    clearManualPositions,
+} from '../../lib/dynamic-pedigree';
+import { createKinshipCalculator } from '../../lib/kinship';
+import type { LineageSharing } from '../../lib/sex-linked';
+import type { PedigreeDiagnostic } from '../../lib/pedigree-validation';
+import { layoutPedigree } from '../../lib/pedigree-layout';
+import {
+    drawPedigree,
+    layoutToPixels,
+    themeColor,
+    GENERATION_HEIGHT,
+    NODE_RADIUS,
+    NODE_SPACING,
+    TOP_MARGIN,
+} from '../../lib/pedigree-drawing';
+import { pedigreeToPng, pedigreeToSvg, type ExportScene, type ImageFormat } from '../../lib/pedigree-export';
+import { downloadFile } from '../../lib/download';
+import { boundsOf, fitView, screenToWorld, zoomAt, type ViewTransform } from '../../lib/view-transform';
+import { PersonContextMenu } from './PersonContextMenu';
+import { PedigreeLegend } from './PedigreeLegend';
+import { PedigreeExport } from './PedigreeExport';
+import { GraphNavigator } from './GraphNavigator';
 import './InteractiveGraph.css';
 
 interface InteractiveGraphProps {
     pedigree: DynamicPedigree;
     onPedigreeChange: (pedigree: DynamicPedigree) => void;
     onPersonSexToggle?: (personId: string) => void;
+    /** Y and mtDNA lineages of the target pair, drawn as coloured edges */
+    lineage?: LineageSharing;
+    /** Validation problems, marked on the affected nodes */
+    diagnostics?: PedigreeDiagnostic[];
+    /** r/F summary offered as a caption for image exports */
+    exportCaption?: string;
+    /** Persons along an ancestral path, highlighted with the lines joining them */
+    highlightedPath?: string[];
 }
 
-interface NodePosition {
-    x: number;
-    y: number;
-}
-
-const NODE_RADIUS = 28;
-const GENERATION_HEIGHT = 110;
-const NODE_SPACING = 90;
+/** Room around the outermost nodes for labels, markers and proband arrows */
+const DRAWING_MARGIN = NODE_RADIUS + 36;
+/** Mouse travel (px) after which a press becomes a pan or drag instead of a click */
+const DRAG_THRESHOLD = 3;
 
 export function InteractiveGraph({
     pedigree,
     onPedigreeChange,
     onPersonSexToggle,
+    lineage,
+    diagnostics = [],
+    exportCaption,
+    highlightedPath,
 }: InteractiveGraphProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -31,42 +66,33 @@ export function InteractiveGraph({
     const [selectedNodes, setSelectedNodes] = useState<string[]>([]);
     const [hoveredNode, setHoveredNode] = useState<string | null>(null);
     const [showRelationshipPanel, setShowRelationshipPanel] = useState(false);
-
-    const graph = pedigreeToGraph(pedigree);
-
-    // Calculate positions with merged nodes
-    const calculatePositions = useCallback((): Map<string, NodePosition> => {
-        const positions = new Map<string, NodePosition>();
-        const generationGroups = new Map<number, Person[]>();
-
-        // Group visible persons by generation
-        graph.persons.forEach((person) => {
-            const gen = person.generation;
-            if (!generationGroups.has(gen)) {
-                generationGroups.set(gen, []);
-            }
-            generationGroups.get(gen)!.push(person);
-        });
-
-        const canvasWidth = containerRef.current?.clientWidth || 700;
-        const sortedGenerations = Array.from(generationGroups.keys()).sort((a, b) => a - b);
-
-        sortedGenerations.forEach((gen) => {
-            const persons = generationGroups.get(gen)!;
-            const totalWidth = (persons.length - 1) * NODE_SPACING;
-            const startX = (canvasWidth - totalWidth) / 2;
-            const y = 70 + gen * GENERATION_HEIGHT;
-
-            persons.forEach((person, index) => {
-                positions.set(person.id, {
-                    x: startX + index * NODE_SPACING,
-                    y,
-                });
-            });
-        });
-
-        return positions;
-    }, [graph]);
+    const [contextMenu, setContextMenu] = useState<{ personId: string; x: number; y: number } | null>(null);
+    const [hoveredDiagnostic, setHoveredDiagnostic] = useState<number | null>(null);
+    // Zoom and pan; null keeps the whole pedigree fitted in view
+    const [view, setView] = useState<ViewTransform | null>(null);
+    const [viewport, setViewport] = useState({ width: 700, height: 350 });
+    // A press on the canvas: pans on empty space, drags when it started on a node
+    const pressRef = useRef<{ x: number; y: number; view: ViewTransform; nodeId: string | null; moved: boolean } | null>(null);
+    const suppressClickRef = useRef(false);
+    // World position of a node being dragged, already snapped to its row
+    const [dragPosition, setDragPosition] = useState<{ id: string; x: number; y: number } | null>(null);
+
+    const graph = useMemo(() => pedigreeToGraph(pedigree), [pedigree]);
+    const layout = useMemo(() => layoutPedigree(graph), [graph]);
+    const kinship = useMemo(() => createKinshipCalculator(buildParentMap(pedigree)), [pedigree]);
+
+    // World (unzoomed pixel) positions of the layout
+    const positions = useMemo(() => layoutToPixels(layout, 0), [layout]);
+    const drawnPositions = useMemo(
+        () => (dragPosition ? new Map(positions).set(dragPosition.id, dragPosition) : positions),
+        [positions, dragPosition]
+    );
+    const bounds = useMemo(() => boundsOf(positions.values(), DRAWING_MARGIN), [positions]);
+    // Fitting never enlarges past 100%, so small pedigrees keep their size
+    const currentView = useMemo(
+        () => view ?? fitView(bounds, viewport.width, viewport.height, 1),
+        [view, bounds, viewport]
+    );
 
     // Draw the graph
     const draw = useCallback(() => {
@@ -86,162 +112,109 @@ export function InteractiveGraph({
         ctx.scale(dpr, dpr);
 
         ctx.clearRect(0, 0, rect.width, rect.height);
-
-        const positions = calculatePositions();
-        const getStyle = (prop: string) =>
-            getComputedStyle(document.documentElement).getPropertyValue(prop).trim();
-
-        // Draw edges
-        ctx.lineWidth = 2;
-        graph.edges.forEach((edge) => {
-            const parentPos = positions.get(edge.parentId);
-            const childPos = positions.get(edge.childId);
-            if (!parentPos || !childPos) return;
-
-            ctx.strokeStyle = getStyle('--edge-muted');
-            ctx.beginPath();
-            ctx.moveTo(parentPos.x, parentPos.y + NODE_RADIUS);
-
-            const midY = (parentPos.y + childPos.y) / 2;
-            ctx.bezierCurveTo(
-                parentPos.x, midY,
-                childPos.x, midY,
-                childPos.x, childPos.y - NODE_RADIUS
-            );
-            ctx.stroke();
-        });
-
-        // Draw consanguinity/relationship links
-        graph.consanguinityLinks.forEach((link) => {
-            const pos1 = positions.get(link.person1Id);
-            const pos2 = positions.get(link.person2Id);
-            if (!pos1 || !pos2) return;
-
-            ctx.strokeStyle = getStyle('--accent-primary');
-            ctx.lineWidth = 2;
-            ctx.setLineDash([5, 5]);
-            ctx.beginPath();
-            ctx.moveTo(pos1.x + NODE_RADIUS, pos1.y);
-            ctx.lineTo(pos2.x - NODE_RADIUS, pos2.y);
-            ctx.stroke();
-            ctx.setLineDash([]);
-        });
-
-        // Selection line between two selected nodes
-        if (selectedNodes.length === 2) {
-            const pos1 = positions.get(selectedNodes[0]);
-            const pos2 = positions.get(selectedNodes[1]);
-            if (pos1 && pos2) {
-                ctx.strokeStyle = getStyle('--accent-secondary');
-                ctx.lineWidth = 3;
-                ctx.setLineDash([3, 3]);
-                ctx.beginPath();
-                ctx.moveTo(pos1.x, pos1.y);
-                ctx.lineTo(pos2.x, pos2.y);
-                ctx.stroke();
-                ctx.setLineDash([]);
-            }
+        ctx.translate(currentView.offsetX, currentView.offsetY);
+        ctx.scale(currentView.scale, currentView.scale);
+
+        drawPedigree(ctx, {
+            graph,
+            layout,
+            positions: drawnPositions,
+            kinship,
+            targetPair: pedigree.targetPair,
+            selectedNodes,
+            hoveredNode,
+            lineage,
+            diagnostics,
+            hoveredDiagnostic,
+            highlightedPath,
+        }, themeColor);
+    }, [
+        graph, layout, drawnPositions, currentView, kinship, pedigree.targetPair, selectedNodes, hoveredNode,
+        lineage, diagnostics, hoveredDiagnostic, highlightedPath,
+    ]);
+
+    // Download the drawing with the current highlighting (hover effects left out)
+    const handleExport = async (format: ImageFormat, scale: number, caption?: string) => {
+        const scene: ExportScene = {
+            graph,
+            layout,
+            kinship,
+            targetPair: pedigree.targetPair,
+            selectedNodes,
+            hoveredNode: null,
+            lineage,
+            diagnostics,
+            hoveredDiagnostic: null,
+            highlightedPath,
+        };
+        if (format === 'svg') {
+            downloadFile('pedigree.svg', pedigreeToSvg(scene, themeColor, caption), 'image/svg+xml');
+            return;
         }
+        const png = await pedigreeToPng(scene, themeColor, scale, caption);
+        if (png) downloadFile('pedigree.png', png, 'image/png');
+    };
 
-        // Draw nodes
-        graph.persons.forEach((person) => {
-            const pos = positions.get(person.id);
-            if (!pos) return;
-
-            const isTarget = pedigree.targetPair.includes(person.id);
-            const isSelected = selectedNodes.includes(person.id);
-            const isHovered = hoveredNode === person.id;
-
-            // Glow effect
-            if (isSelected || isTarget) {
-                ctx.shadowColor = isSelected
-                    ? getStyle('--accent-secondary')
-                    : getStyle('--accent-glow');
-                ctx.shadowBlur = isSelected ? 25 : 15;
-            }
-
-            // Node circle
-            ctx.beginPath();
-            ctx.arc(pos.x, pos.y, NODE_RADIUS, 0, Math.PI * 2);
-
-            if (isSelected) {
-                ctx.fillStyle = getStyle('--accent-secondary');
-            } else if (isTarget) {
-                ctx.fillStyle = getStyle('--node-selected');
-            } else if (isHovered) {
-                ctx.fillStyle = getStyle('--bg-hover');
-            } else {
-                ctx.fillStyle = getStyle('--node-fill');
-            }
-            ctx.fill();
-
-            // Border
-            ctx.strokeStyle = isSelected
-                ? getStyle('--accent-secondary')
-                : isTarget
-                    ? getStyle('--accent-primary')
-                    : getStyle('--border');
-            ctx.lineWidth = isSelected || isTarget ? 3 : 1.5;
-            ctx.stroke();
-            ctx.shadowBlur = 0;
-
-            // Sex indicator
-            ctx.fillStyle = person.sex === 'M'
-                ? getStyle('--node-male')
-                : getStyle('--node-female');
-            ctx.font = 'bold 16px Inter, sans-serif';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fillText(person.sex === 'M' ? '♂' : '♀', pos.x, pos.y);
-
-            // Label
-            ctx.fillStyle = isTarget
-                ? getStyle('--accent-secondary')
-                : getStyle('--text-secondary');
-            ctx.font = isTarget ? 'bold 11px Inter, sans-serif' : '11px Inter, sans-serif';
-            ctx.fillText(person.label, pos.x, pos.y + NODE_RADIUS + 16);
-        });
-    }, [graph, pedigree.targetPair, selectedNodes, hoveredNode, calculatePositions]);
-
-    // Handle canvas click for node selection
-    const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Find the node under a mouse event, if any (in world coordinates)
+    const hitTest = (e: React.MouseEvent<HTMLCanvasElement>): string | null => {
         const canvas = canvasRef.current;
-        if (!canvas) return;
+        if (!canvas) return null;
 
         const rect = canvas.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
-        const positions = calculatePositions();
+        const { x, y } = screenToWorld(currentView, e.clientX - rect.left, e.clientY - rect.top);
 
         for (const [id, pos] of positions) {
             const dx = x - pos.x;
             const dy = y - pos.y;
             if (dx * dx + dy * dy <= NODE_RADIUS * NODE_RADIUS) {
-                if (e.shiftKey && onPersonSexToggle) {
-                    onPersonSexToggle(id);
-                    return;
-                }
+                return id;
+            }
+        }
+        return null;
+    };
 
-                // Toggle selection
-                setSelectedNodes(prev => {
-                    if (prev.includes(id)) {
-                        // Deselect
-                        setShowRelationshipPanel(false);
-                        return prev.filter(n => n !== id);
-                    } else if (prev.length >= 2) {
-                        // Replace first selection
-                        return [prev[1], id];
-                    } else {
-                        // Add to selection
-                        const newSelection = [...prev, id];
-                        if (newSelection.length === 2) {
-                            setShowRelationshipPanel(true);
-                        }
-                        return newSelection;
-                    }
-                });
+    // A press starts a drag on a node, or a pan on empty space
+    const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        suppressClickRef.current = false;
+        if (e.button !== 0) return;
+        pressRef.current = { x: e.clientX, y: e.clientY, view: currentView, nodeId: hitTest(e), moved: false };
+    };
+
+    // Handle canvas click for node selection
+    const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        // The press was a pan or drag, not a click
+        if (suppressClickRef.current) {
+            suppressClickRef.current = false;
+            return;
+        }
+        setContextMenu(null);
+
+        const id = hitTest(e);
+        if (id) {
+            if (e.shiftKey && onPersonSexToggle) {
+                onPersonSexToggle(id);
                 return;
             }
+
+            // Toggle selection
+            setSelectedNodes(prev => {
+                if (prev.includes(id)) {
+                    // Deselect
+                    setShowRelationshipPanel(false);
+                    return prev.filter(n => n !== id);
+                } else if (prev.length >= 2) {
+                    // Replace first selection
+                    return [prev[1], id];
+                } else {
+                    // Add to selection
+                    const newSelection = [...prev, id];
+                    if (newSelection.length === 2) {
+                        setShowRelationshipPanel(true);
+                    }
+                    return newSelection;
+                }
+            });
+            return;
         }
 
         // Clicked on empty space - clear selection
@@ -249,27 +222,57 @@ export function InteractiveGraph({
         setShowRelationshipPanel(false);
     };
 
-    // Handle mouse move for hover effect
+    // Open the editing menu for a node on right-click
+    const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        e.preventDefault();
+        const id = hitTest(e);
+        if (!id) {
+            setContextMenu(null);
+            return;
+        }
+
+        const rect = e.currentTarget.getBoundingClientRect();
+        setContextMenu({
+            personId: id,
+            x: Math.min(e.clientX - rect.left, rect.width - 240),
+            y: Math.min(e.clientY - rect.top, rect.height - 320),
+        });
+    };
+
+    // Apply an edit from the context menu
+    const handlePedigreeEdit = (newPedigree: DynamicPedigree) => {
+        onPedigreeChange(newPedigree);
+        setSelectedNodes([]);
+        setShowRelationshipPanel(false);
+    };
+
+    // Drag a node or pan while pressed, otherwise update the hover effect
     const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
         const canvas = canvasRef.current;
         if (!canvas) return;
 
-        const rect = canvas.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
-        const positions = calculatePositions();
-
-        for (const [id, pos] of positions) {
-            const dx = x - pos.x;
-            const dy = y - pos.y;
-            if (dx * dx + dy * dy <= NODE_RADIUS * NODE_RADIUS) {
-                setHoveredNode(id);
-                canvas.style.cursor = 'pointer';
-                return;
+        const press = pressRef.current;
+        if (press) {
+            const dx = e.clientX - press.x;
+            const dy = e.clientY - press.y;
+            if (!press.moved && Math.abs(dx) + Math.abs(dy) < DRAG_THRESHOLD) return;
+            press.moved = true;
+            canvas.style.cursor = 'grabbing';
+
+            if (press.nodeId) {
+                const rect = canvas.getBoundingClientRect();
+                const world = screenToWorld(currentView, e.clientX - rect.left, e.clientY - rect.top);
+                const row = Math.max(0, Math.round((world.y - TOP_MARGIN) / GENERATION_HEIGHT));
+                setDragPosition({ id: press.nodeId, x: world.x, y: TOP_MARGIN + row * GENERATION_HEIGHT });
+            } else {
+                setView({ ...press.view, offsetX: press.view.offsetX + dx, offsetY: press.view.offsetY + dy });
             }
+            return;
         }
-        setHoveredNode(null);
-        canvas.style.cursor = 'default';
+
+        const id = hitTest(e);
+        setHoveredNode(id);
+        canvas.style.cursor = id ? 'pointer' : 'grab';
     };
 
     // Handle relationship selection
@@ -289,11 +292,55 @@ export function InteractiveGraph({
 
     useEffect(() => {
         draw();
-        const handleResize = () => draw();
-        window.addEventListener('resize', handleResize);
-        return () => window.removeEventListener('resize', handleResize);
     }, [draw]);
 
+    // Track the container size; redraws and re-fits through the viewport state
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            const rect = container.getBoundingClientRect();
+            setViewport({ width: rect.width, height: rect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    // End a press wherever the mouse is released: a dragged node is pinned
+    // where it was dropped, and a press that moved swallows the click
+    useEffect(() => {
+        const handleMouseUp = () => {
+            const press = pressRef.current;
+            if (!press) return;
+            suppressClickRef.current = press.moved;
+            pressRef.current = null;
+
+            if (press.nodeId && dragPosition) {
+                onPedigreeChange(setPersonPosition(pedigree, press.nodeId, {
+                    x: Math.round((dragPosition.x / NODE_SPACING) * 100) / 100,
+                    y: Math.round((dragPosition.y - TOP_MARGIN) / GENERATION_HEIGHT),
+                }));
+                setDragPosition(null);
+            }
+        };
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => window.removeEventListener('mouseup', handleMouseUp);
+    }, [pedigree, onPedigreeChange, dragPosition]);
+
+    // Wheel zoom around the cursor (a native listener, so the page does not scroll)
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const factor = Math.exp(-e.deltaY * 0.0015);
+            setView(prev => zoomAt(prev ?? currentView, factor, e.clientX - rect.left, e.clientY - rect.top));
+        };
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', handleWheel);
+    }, [currentView]);
+
     const relationshipOptions = selectedNodes.length === 2
         ? getRelationshipOptions(pedigree, selectedNodes[0], selectedNodes[1])
         : [];
@@ -305,8 +352,10 @@ export function InteractiveGraph({
         <div className="interactive-graph" ref={containerRef}>
             <canvas
                 ref={canvasRef}
+                onMouseDown={handleMouseDown}
                 onClick={handleClick}
                 onMouseMove={handleMouseMove}
+                onContextMenu={handleContextMenu}
                 className="interactive-graph-canvas"
             />
 
@@ -341,10 +390,57 @@ export function InteractiveGraph({
                 </div>
             )}
 
+            {contextMenu && (
+                <PersonContextMenu
+                    key={contextMenu.personId}
+                    pedigree={pedigree}
+                    personId={contextMenu.personId}
+                    x={contextMenu.x}
+                    y={contextMenu.y}
+                    onPedigreeChange={handlePedigreeEdit}
+                    onClose={() => setContextMenu(null)}
+                />
+            )}
+
+            <PedigreeLegend showLineage={!!lineage} />
+            <PedigreeExport caption={exportCaption} onExport={handleExport} />
+            <GraphNavigator
+                positions={positions}
+                targetPair={pedigree.targetPair}
+                bounds={bounds}
+                view={currentView}
+                viewport={viewport}
+                onViewChange={setView}
+                onFit={() => setView(null)}
+                onRelayout={hasManualPositions(pedigree)
+                    ? () => onPedigreeChange(clearManualPositions(pedigree))
+                    : undefined}
+            />
+
+            {diagnostics.length > 0 && (
+                <ul className="interactive-graph-diagnostics" onMouseLeave={() => setHoveredDiagnostic(null)}>
+                    {diagnostics.map((d, i) => (
+                        <li
+                            key={i}
+                            className={`graph-diagnostic ${d.severity}`}
+                            onMouseEnter={() => setHoveredDiagnostic(i)}
+                        >
+                            {d.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
             <div className="interactive-graph-hint">
                 <span>Click two nodes to define their relationship</span>
                 <span>·</span>
                 <span>Shift+click to toggle sex</span>
+                <span>·</span>
+                <span>Right-click to edit</span>
+                <span>·</span>
+                <span>Drag nodes to move them</span>
+                <span>·</span>
+                <span>Scroll to zoom, drag to pan</span>
             </div>
         </div>
     );
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { PNG_SCALES, type ImageFormat } from '../../lib/pedigree-export';
+import './PedigreeExport.css';
+
+interface PedigreeExportProps {
+    /** r/F summary that can be drawn under the pedigree */
+    caption?: string;
+    onExport: (format: ImageFormat, scale: number, caption?: string) => void;
+}
+
+/**
+ * Export button with format, PNG scale and caption options
+ */
+export function PedigreeExport({ caption, onExport }: PedigreeExportProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [format, setFormat] = useState<ImageFormat>('svg');
+    const [scale, setScale] = useState(2);
+    const [includeCaption, setIncludeCaption] = useState(true);
+
+    return (
+        <div className="pedigree-export" onClick={(e) => e.stopPropagation()}>
+            {isOpen && (
+                <div className="pedigree-export-panel">
+                    <div className="pedigree-export-field">
+                        <label className="pedigree-export-label">Format</label>
+                        <select
+                            className="select pedigree-export-select"
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as ImageFormat)}
+                        >
+                            <option value="svg">SVG (vector)</option>
+                            <option value="png">PNG</option>
+                        </select>
+                    </div>
+                    {format === 'png' && (
+                        <div className="pedigree-export-field">
+                            <label className="pedigree-export-label">Scale</label>
+                            <select
+                                className="select pedigree-export-select"
+                                value={scale}
+                                onChange={(e) => setScale(Number(e.target.value))}
+                            >
+                                {PNG_SCALES.map(s => (
+                                    <option key={s} value={s}>{s}×</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {caption && (
+                        <label className="pedigree-export-check">
+                            <input
+                                type="checkbox"
+                                checked={includeCaption}
+                                onChange={(e) => setIncludeCaption(e.target.checked)}
+                            />
+                            Caption with r and F
+                        </label>
+                    )}
+                    <button
+                        className="btn btn-primary"
+                        onClick={() => {
+                            onExport(format, scale, includeCaption ? caption : undefined);
+                            setIsOpen(false);
+                        }}
+                    >
+                        Download
+                    </button>
+                </div>
+            )}
+            <button className="btn btn-secondary pedigree-export-toggle" onClick={() => setIsOpen(!isOpen)}>
+                Export
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+import type { ReactNode } from 'react';
+import './PedigreeLegend.css';
+
+interface PedigreeLegendProps {
+    /** Also explain the Y and mtDNA lineage colours */
+    showLineage?: boolean;
+}
+
+const SYMBOLS: { label: string; shape: ReactNode }[] = [
+    { label: 'Male', shape: <rect x="2" y="2" width="10" height="10" /> },
+    { label: 'Female', shape: <circle cx="7" cy="7" r="5" /> },
+    { label: 'Sex unknown', shape: <polygon points="7,1 13,7 7,13 1,7" /> },
+    { label: 'Affected', shape: <circle cx="7" cy="7" r="5" className="filled" /> },
+    {
+        label: 'Carrier',
+        shape: (
+            <>
+                <circle cx="7" cy="7" r="5" />
+                <path d="M7 2 A5 5 0 0 0 7 12 Z" className="filled" />
+            </>
+        ),
+    },
+    {
+        label: 'Deceased',
+        shape: (
+            <>
+                <circle cx="7" cy="7" r="4" />
+                <line x1="1" y1="13" x2="13" y2="1" />
+            </>
+        ),
+    },
+    {
+        label: 'Consanguineous mating',
+        shape: (
+            <>
+                <line x1="0" y1="5" x2="14" y2="5" />
+                <line x1="0" y1="9" x2="14" y2="9" />
+            </>
+        ),
+    },
+    {
+        label: 'Proband',
+        shape: (
+            <>
+                <line x1="2" y1="12" x2="10" y2="4" />
+                <polygon points="11,3 6,4 10,8" className="filled" />
+            </>
+        ),
+    },
+];
+
+/**
+ * Key to the clinical (NSGC) pedigree symbols drawn in the graph
+ */
+export function PedigreeLegend({ showLineage }: PedigreeLegendProps) {
+    return (
+        <div className="pedigree-legend">
+            {SYMBOLS.map(({ label, shape }) => (
+                <span key={label} className="legend-item">
+                    <svg className="legend-symbol" viewBox="0 0 14 14" width="14" height="14">{shape}</svg>
+                    {label}
+                </span>
+            ))}
+            {showLineage && (
+                <>
+                    <span className="legend-item"><span className="legend-line paternal" />Y lineage</span>
+                    <span className="legend-item"><span className="legend-line maternal" />mtDNA lineage</span>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import type { PhenotypeStatus, Sex } from '../../types';
+import type { DynamicPedigree } from '../../lib/dynamic-pedigree';
+import {
+    addParent,
+    addChild,
+    addSibling,
+    removePerson,
+    setParent,
+    setPersonStatus,
+    setPersonDeceased,
+    setProband,
+    getParents,
+    getParentCandidates,
+} from '../../lib/dynamic-pedigree';
+import './PersonContextMenu.css';
+
+interface PersonContextMenuProps {
+    pedigree: DynamicPedigree;
+    personId: string;
+    x: number;
+    y: number;
+    onPedigreeChange: (pedigree: DynamicPedigree) => void;
+    onClose: () => void;
+}
+
+export function PersonContextMenu({
+    pedigree,
+    personId,
+    x,
+    y,
+    onPedigreeChange,
+    onClose,
+}: PersonContextMenuProps) {
+    const [partnerId, setPartnerId] = useState<string>('');
+
+    const person = pedigree.persons.get(personId);
+    if (!person) return null;
+
+    const parents = getParents(pedigree, personId);
+    const isTarget = pedigree.targetPair.includes(personId);
+    const partnerSex: Sex = person.sex === 'M' ? 'F' : 'M';
+    const partnerOptions = Array.from(pedigree.persons.values()).filter(
+        p => !pedigree.merges.has(p.id) && p.sex === partnerSex
+    );
+
+    // Apply an edit and close the menu
+    const apply = (newPedigree: DynamicPedigree) => {
+        onPedigreeChange(newPedigree);
+        onClose();
+    };
+
+    const renderParentSelect = (sex: Sex) => {
+        const current = sex === 'M' ? parents.father : parents.mother;
+        return (
+            <div className="person-menu-field">
+                <label className="person-menu-label">{sex === 'M' ? 'Father' : 'Mother'}</label>
+                <select
+                    className="select person-menu-select"
+                    value={current ?? ''}
+                    onChange={(e) => apply(setParent(pedigree, personId, sex, e.target.value || null))}
+                >
+                    <option value="">— None —</option>
+                    {getParentCandidates(pedigree, personId, sex).map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                </select>
+            </div>
+        );
+    };
+
+    return (
+        <div
+            className="person-menu"
+            style={{ left: x, top: y }}
+            onClick={(e) => e.stopPropagation()}
+            onContextMenu={(e) => e.preventDefault()}
+        >
+            <div className="person-menu-header">
+                <span className="person-menu-title">{person.label}</span>
+                <button className="relationship-close" onClick={onClose}>×</button>
+            </div>
+
+            <div className="person-menu-section">
+                <div className="person-menu-field">
+                    <label className="person-menu-label">Status</label>
+                    <select
+                        className="select person-menu-select"
+                        value={person.status ?? 'unknown'}
+                        onChange={(e) => apply(setPersonStatus(pedigree, personId, e.target.value as PhenotypeStatus))}
+                    >
+                        <option value="unknown">Unknown</option>
+                        <option value="unaffected">Unaffected</option>
+                        <option value="carrier">Carrier</option>
+                        <option value="affected">Affected</option>
+                    </select>
+                </div>
+                <div className="person-menu-row">
+                    <label className="person-menu-check">
+                        <input
+                            type="checkbox"
+                            checked={!!person.deceased}
+                            onChange={(e) => apply(setPersonDeceased(pedigree, personId, e.target.checked))}
+                        />
+                        Deceased
+                    </label>
+                    <label className="person-menu-check">
+                        <input
+                            type="checkbox"
+                            checked={!!person.proband}
+                            onChange={(e) => apply(setProband(pedigree, e.target.checked ? personId : null))}
+                        />
+                        Proband
+                    </label>
+                </div>
+            </div>
+
+            <div className="person-menu-section">
+                {!parents.father && (
+                    <button className="person-menu-item" onClick={() => apply(addParent(pedigree, personId, 'M'))}>
+                        Add Father
+                    </button>
+                )}
+                {!parents.mother && (
+                    <button className="person-menu-item" onClick={() => apply(addParent(pedigree, personId, 'F'))}>
+                        Add Mother
+                    </button>
+                )}
+                <button className="person-menu-item" onClick={() => apply(addSibling(pedigree, personId, 'M'))}>
+                    Add Brother
+                </button>
+                <button className="person-menu-item" onClick={() => apply(addSibling(pedigree, personId, 'F'))}>
+                    Add Sister
+                </button>
+            </div>
+
+            <div className="person-menu-section">
+                <div className="person-menu-field">
+                    <label className="person-menu-label">Partner</label>
+                    <select
+                        className="select person-menu-select"
+                        value={partnerId}
+                        onChange={(e) => setPartnerId(e.target.value)}
+                    >
+                        <option value="">New partner</option>
+                        {partnerOptions.map(p => (
+                            <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="person-menu-row">
+                    <button
+                        className="person-menu-item"
+                        onClick={() => apply(addChild(pedigree, personId, 'M', partnerId || undefined))}
+                    >
+                        Add Son
+                    </button>
+                    <button
+                        className="person-menu-item"
+                        onClick={() => apply(addChild(pedigree, personId, 'F', partnerId || undefined))}
+                    >
+                        Add Daughter
+                    </button>
+                </div>
+            </div>
+
+            <div className="person-menu-section">
+                {renderParentSelect('M')}
+                {renderParentSelect('F')}
+            </div>
+
+            <button
+                className="person-menu-item danger"
+                disabled={isTarget}
+                title={isTarget ? 'Target individuals cannot be removed' : undefined}
+                onClick={() => apply(removePerson(pedigree, personId))}
+            >
+                Remove Person
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import type { ContributingPath } from '../../types';
+import './AncestralPathsCard.css';
+
+interface AncestralPathsCardProps {
+    /** Null while the panel is collapsed; `truncated` means the list was cut off */
+    listing: { paths: ContributingPath[]; truncated: boolean } | null;
+    onToggle: () => void;
+    coefficientOfRelationship: number;
+    labelOf: (personId: string) => string;
+    selectedPath: string[] | null;
+    onHover: (path: string[] | null) => void;
+    onSelect: (path: string[] | null) => void;
+}
+
+const formatCoefficient = (value: number) => {
+    if (value === 0) return '0';
+    return value >= 0.0001 ? value.toFixed(4) : value.toExponential(2);
+};
+
+export function AncestralPathsCard({
+    listing,
+    onToggle,
+    coefficientOfRelationship,
+    labelOf,
+    selectedPath,
+    onHover,
+    onSelect,
+}: AncestralPathsCardProps) {
+    // Largest contributions first; the sort is stable, so ties keep the search order
+    const sortedPaths = useMemo(
+        () => (listing ? [...listing.paths].sort((a, b) => b.contribution - a.contribution) : []),
+        [listing]
+    );
+    const total = sortedPaths.reduce((sum, path) => sum + path.contribution, 0);
+    const selectedKey = selectedPath?.join('>');
+
+    return (
+        <div className="ancestral-paths">
+            <div className="ancestral-paths-header">
+                <label className="label">Ancestral Paths</label>
+                <button className="btn btn-secondary" onClick={onToggle}>
+                    {listing ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            <p className="ancestral-paths-description">
+                r = Σ (½)<sup>n</sup>(1 + F<sub>A</sub>) over the paths through each common ancestor A.
+                {listing && ' Hover or click a path to trace it in the graph.'}
+            </p>
+
+            {!listing ? null : sortedPaths.length === 0 ? (
+                <p className="ancestral-paths-description">
+                    No common ancestors: the pair is unrelated in this pedigree
+                </p>
+            ) : (
+                <ol className="ancestral-paths-list" onMouseLeave={() => onHover(null)}>
+                    {sortedPaths.map(path => {
+                        const key = path.personIds.join('>');
+                        const isSelected = key === selectedKey;
+                        return (
+                            <li key={key}>
+                                <button
+                                    className={`ancestral-path-item ${isSelected ? 'selected' : ''}`}
+                                    onMouseEnter={() => onHover(path.personIds)}
+                                    onClick={() => onSelect(isSelected ? null : path.personIds)}
+                                >
+                                    <span className="ancestral-path-route">
+                                        {path.personIds.map((id, i) => (
+                                            <span key={id}>
+                                                {i > 0 && ' – '}
+                                                {id === path.commonAncestorId
+                                                    ? <strong>{labelOf(id)}</strong>
+                                                    : labelOf(id)}
+                                            </span>
+                                        ))}
+                                    </span>
+                                    <span className="ancestral-path-terms">
+                                        <span>n = {path.steps}</span>
+                                        <span>F<sub>A</sub> = {formatCoefficient(path.ancestorInbreeding)}</span>
+                                        <span className="ancestral-path-contribution">
+                                            {formatCoefficient(path.contribution)}
+                                        </span>
+                                    </span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+
+            {listing && (
+                <div className="probability-detail-row ancestral-paths-total">
+                    <span className="probability-detail-label">
+                        Σ over {sortedPaths.length} path{sortedPaths.length === 1 ? '' : 's'}
+                    </span>
+                    <span className="probability-detail-value">
+                        {formatCoefficient(total)} (r = {formatCoefficient(coefficientOfRelationship)})
+                    </span>
+                </div>
+            )}
+            {listing?.truncated && (
+                <p className="ancestral-paths-description ancestral-paths-truncated">
+                    Too many paths to list them all; r itself is exact
+                </p>
+            )}
+        </div>
+    );
+}
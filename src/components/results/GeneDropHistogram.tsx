@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import type { DynamicPedigree } from '../../lib/dynamic-pedigree';
+import {
+    DEFAULT_GENE_DROP_OPTIONS,
+    createHistogram,
+    simulateGeneDrop,
+    type GeneDropResult,
+} from '../../lib/gene-drop';
+import { randomSeed } from '../../lib/random';
+import './GeneDropHistogram.css';
+
+interface GeneDropHistogramProps {
+    pedigree: DynamicPedigree;
+    /** Analytic r of the pair, overlaid on the relatedness histogram */
+    expectedRelatedness: number;
+    /** Analytic F of a child of the pair, overlaid on the inbreeding histogram */
+    expectedInbreeding: number;
+}
+
+type Metric = 'relatedness' | 'inbreeding';
+
+const BIN_COUNT = 25;
+
+export function GeneDropHistogram({ pedigree, expectedRelatedness, expectedInbreeding }: GeneDropHistogramProps) {
+    const [metric, setMetric] = useState<Metric>('relatedness');
+    // Simulated on request only, since it takes seconds on large pedigrees;
+    // a run belongs to the pedigree it was made on
+    const [run, setRun] = useState<{ pedigree: DynamicPedigree; result: GeneDropResult } | null>(null);
+    const result = run?.pedigree === pedigree ? run.result : null;
+
+    const simulate = (seed: number) => setRun({
+        pedigree,
+        result: simulateGeneDrop(pedigree, { ...DEFAULT_GENE_DROP_OPTIONS, seed }),
+    });
+
+    const samples = useMemo(() => {
+        if (!result) return [];
+        return metric === 'relatedness' ? result.relatedness : result.offspringInbreeding;
+    }, [result, metric]);
+    const expected = metric === 'relatedness' ? expectedRelatedness : expectedInbreeding;
+    const simulatedMean = !result ? 0 : metric === 'relatedness' ? result.meanRelatedness : result.meanOffspringInbreeding;
+
+    // Zoom the x-axis to the data so distant relatives are not squashed into one bar
+    const range = useMemo(() => {
+        const max = Math.max(expected, ...samples);
+        return max > 0 ? Math.min(1, Math.ceil(max * 1.1 * 20) / 20) : 1;
+    }, [samples, expected]);
+
+    const histogram = useMemo(() => createHistogram(samples, BIN_COUNT, 0, range), [samples, range]);
+    const peak = Math.max(...histogram.frequencies, 0);
+
+    const sorted = useMemo(() => [...samples].sort((a, b) => a - b), [samples]);
+    const quantile = (p: number) => sorted.length > 0 ? sorted[Math.floor(p * (sorted.length - 1))] : 0;
+
+    return (
+        <div className="gene-drop">
+            <label className="label">Realized Sharing (Simulated)</label>
+            <p className="gene-drop-description">
+                Gene dropping through the pedigree: {DEFAULT_GENE_DROP_OPTIONS.replicates.toLocaleString()} replicates
+                of {DEFAULT_GENE_DROP_OPTIONS.loci} unlinked loci. A per-locus approximation: real chromosomes are
+                linked, so genome-wide sharing spreads differently (see DNA Segment Sharing)
+            </p>
+
+            <div className="gene-drop-controls">
+                <select
+                    className="select gene-drop-metric"
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value as Metric)}
+                >
+                    <option value="relatedness">IBD sharing (r)</option>
+                    <option value="inbreeding">Child's autozygosity (F)</option>
+                </select>
+                {result ? (
+                    <button className="btn btn-secondary" onClick={() => simulate(randomSeed())}>
+                        Re-run
+                    </button>
+                ) : (
+                    <button className="btn btn-secondary" onClick={() => simulate(DEFAULT_GENE_DROP_OPTIONS.seed)}>
+                        Simulate
+                    </button>
+                )}
+            </div>
+
+            {!result ? (
+                run && (
+                    <p className="gene-drop-description">The pedigree has changed since the last simulation</p>
+                )
+            ) : (
+                <>
+                    <div className="gene-drop-chart">
+                        {histogram.frequencies.map((frequency, i) => (
+                            <div
+                                key={i}
+                                className="gene-drop-bar"
+                                style={{ height: `${peak > 0 ? (frequency / peak) * 100 : 0}%` }}
+                                title={`${(histogram.edges[i] * 100).toFixed(1)}–${((histogram.edges[i] + histogram.binWidth) * 100).toFixed(1)}%: ${(frequency * 100).toFixed(1)}% of replicates`}
+                            />
+                        ))}
+                        <div
+                            className="gene-drop-expected"
+                            style={{ left: `${Math.min(expected / range, 1) * 100}%` }}
+                            title={`Expected: ${(expected * 100).toFixed(2)}%`}
+                        />
+                    </div>
+                    <div className="gene-drop-axis">
+                        <span>0%</span>
+                        <span>{(range * 100).toFixed(0)}%</span>
+                    </div>
+
+                    <div className="gene-drop-rows">
+                        <div className="probability-detail-row">
+                            <span className="probability-detail-label">
+                                <span className="gene-drop-key expected" /> Expected (analytic)
+                            </span>
+                            <span className="probability-detail-value">{(expected * 100).toFixed(2)}%</span>
+                        </div>
+                        <div className="probability-detail-row">
+                            <span className="probability-detail-label">Simulated mean</span>
+                            <span className="probability-detail-value">{(simulatedMean * 100).toFixed(2)}%</span>
+                        </div>
+                        <div className="probability-detail-row">
+                            <span className="probability-detail-label">90% of replicates</span>
+                            <span className="probability-detail-value">
+                                {(quantile(0.05) * 100).toFixed(1)}–{(quantile(0.95) * 100).toFixed(1)}%
+                            </span>
+                        </div>
+                        {metric === 'relatedness' && (
+                            <div className="probability-detail-row">
+                                <span className="probability-detail-label">No IBD at any locus</span>
+                                <span className="probability-detail-value">{(result.zeroSharing * 100).toFixed(1)}%</span>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="gene-drop-seed">Seed {result.options.seed}</div>
+                </>
+            )}
+        </div>
+    );
+}
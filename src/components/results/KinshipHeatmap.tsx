@@ -0,0 +1,127 @@
+import { useMemo, useState } from 'react';
+import type { DynamicPedigree } from '../../lib/dynamic-pedigree';
+import { calculateKinshipMatrix, kinshipMatrixToCsv } from '../../lib/kinship-matrix';
+import { downloadFile } from '../../lib/download';
+import './KinshipHeatmap.css';
+
+interface KinshipHeatmapProps {
+    pedigree: DynamicPedigree;
+    onSelectPair: (person1Id: string, person2Id: string) => void;
+}
+
+type SortKey = 'generation' | 'label' | 'inbreeding' | { personId: string };
+
+/** Relatedness at which a cell reaches full colour */
+const FULL_INTENSITY_R = 0.5;
+
+export function KinshipHeatmap({ pedigree, onSelectPair }: KinshipHeatmapProps) {
+    const [sortKey, setSortKey] = useState<SortKey>('generation');
+
+    const matrix = useMemo(() => calculateKinshipMatrix(pedigree), [pedigree]);
+
+    // Row/column order for the current sort
+    const order = useMemo(() => {
+        const indices = matrix.persons.map((_, i) => i);
+        if (sortKey === 'label') {
+            return indices.sort((a, b) => matrix.persons[a].label.localeCompare(matrix.persons[b].label));
+        }
+        if (sortKey === 'inbreeding') {
+            return indices.sort((a, b) => matrix.inbreeding[b] - matrix.inbreeding[a]);
+        }
+        if (sortKey === 'generation') {
+            return indices.sort((a, b) => matrix.persons[a].generation - matrix.persons[b].generation);
+        }
+        // Most related to the chosen person first
+        const pivot = matrix.persons.findIndex(p => p.id === sortKey.personId);
+        if (pivot < 0) return indices;
+        return indices.sort((a, b) => matrix.relatedness[pivot][b] - matrix.relatedness[pivot][a]);
+    }, [matrix, sortKey]);
+
+    const formatValue = (value: number) => {
+        if (value === 0) return '0';
+        if (value < 0.001) return value.toExponential(1);
+        return value.toFixed(3);
+    };
+
+    const isTargetPair = (id1: string, id2: string) =>
+        (pedigree.targetPair[0] === id1 && pedigree.targetPair[1] === id2) ||
+        (pedigree.targetPair[0] === id2 && pedigree.targetPair[1] === id1);
+
+    const handleExport = () => {
+        downloadFile('kinship-matrix.csv', kinshipMatrixToCsv(matrix), 'text/csv');
+    };
+
+    const sortedByPerson = typeof sortKey === 'object' ? sortKey.personId : null;
+
+    return (
+        <div className="kinship-heatmap">
+            <div className="kinship-heatmap-toolbar">
+                <select
+                    className="select kinship-heatmap-sort"
+                    value={typeof sortKey === 'string' ? sortKey : ''}
+                    onChange={(e) => setSortKey(e.target.value as SortKey)}
+                >
+                    {sortedByPerson && <option value="">By relatedness to selected</option>}
+                    <option value="generation">Sort by generation</option>
+                    <option value="label">Sort by name</option>
+                    <option value="inbreeding">Sort by inbreeding (F)</option>
+                </select>
+                <button className="btn btn-secondary" onClick={handleExport}>
+                    Export CSV
+                </button>
+            </div>
+
+            <div className="kinship-heatmap-scroll">
+                <table className="kinship-heatmap-table">
+                    <thead>
+                        <tr>
+                            <th />
+                            <th className="kinship-heatmap-f">F</th>
+                            {order.map(j => (
+                                <th
+                                    key={matrix.persons[j].id}
+                                    className={`kinship-heatmap-col ${sortedByPerson === matrix.persons[j].id ? 'sorted' : ''}`}
+                                    onClick={() => setSortKey({ personId: matrix.persons[j].id })}
+                                    title={`Sort by relatedness to ${matrix.persons[j].label}`}
+                                >
+                                    <span>{matrix.persons[j].label}</span>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {order.map(i => (
+                            <tr key={matrix.persons[i].id}>
+                                <th className="kinship-heatmap-row">{matrix.persons[i].label}</th>
+                                <td className="kinship-heatmap-f">{formatValue(matrix.inbreeding[i])}</td>
+                                {order.map(j => {
+                                    const r = matrix.relatedness[i][j];
+                                    const id1 = matrix.persons[i].id;
+                                    const id2 = matrix.persons[j].id;
+                                    if (i === j) {
+                                        return <td key={id2} className="kinship-heatmap-cell diagonal" />;
+                                    }
+                                    return (
+                                        <td
+                                            key={id2}
+                                            className={`kinship-heatmap-cell ${isTargetPair(id1, id2) ? 'target' : ''}`}
+                                            style={{
+                                                backgroundColor: `rgba(20, 184, 166, ${Math.min(r / FULL_INTENSITY_R, 1)})`,
+                                            }}
+                                            title={`${matrix.persons[i].label} ↔ ${matrix.persons[j].label}: r = ${formatValue(r)}, φ = ${formatValue(matrix.kinship[i][j])}`}
+                                            onClick={() => onSelectPair(id1, id2)}
+                                        >
+                                            {r > 0 ? formatValue(r) : ''}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="kinship-heatmap-hint">Click a cell to compare that pair</div>
+        </div>
+    );
+}
@@ -26,6 +26,10 @@ export function ProbabilityDisplay({
         return value.toFixed(4);
     };
 
+    const formatLineage = (value: number) => value > 0 ? 'Shared' : 'Not shared';
+
+    const identity = result.identityCoefficients;
+
     const hasChange = result.deltaFromBaseline !== 0;
     const changePercent = hasChange
         ? ((result.deltaFromBaseline / result.baselineR) * 100).toFixed(1)
@@ -81,9 +85,12 @@ export function ProbabilityDisplay({
 
                 {result.xLinkedCoefficient !== null && (
                     <div className="probability-detail-row sex-linked">
-                        <span className="probability-detail-label">
+                        <span
+                            className="probability-detail-label"
+                            title="Standardized, symmetric X-linked correlation r_X = φX(a,b) / √(φX(a,a)·φX(b,b)). Where a male is involved it differs from the conventional directional X-linked coefficients (brother-sister 0.354 rather than ½, father-daughter 0.707 rather than 1)"
+                        >
                             <span className="sex-indicator x">X</span>
-                            X-Linked Coefficient
+                            X-Linked Correlation (standardized r<sub>X</sub>)
                         </span>
                         <span className="probability-detail-value">
                             {formatCoefficient(result.xLinkedCoefficient)}
@@ -91,16 +98,69 @@ export function ProbabilityDisplay({
                     </div>
                 )}
 
-                {result.yLinkedCoefficient !== null && result.yLinkedCoefficient > 0 && (
+                {result.yLinkedCoefficient !== null && (
                     <div className="probability-detail-row sex-linked">
                         <span className="probability-detail-label">
                             <span className="sex-indicator y">Y</span>
-                            Y-Linked Coefficient
+                            Y-Chromosome Lineage
+                        </span>
+                        <span className="probability-detail-value">
+                            {formatLineage(result.yLinkedCoefficient)}
+                        </span>
+                    </div>
+                )}
+
+                {result.mitochondrialCoefficient !== null && (
+                    <div className="probability-detail-row sex-linked">
+                        <span className="probability-detail-label">
+                            <span className="sex-indicator mt">mt</span>
+                            Mitochondrial Lineage
                         </span>
                         <span className="probability-detail-value">
-                            {formatCoefficient(result.yLinkedCoefficient)}
+                            {formatLineage(result.mitochondrialCoefficient)}
+                        </span>
+                    </div>
+                )}
+
+                {identity === 'too-complex' ? (
+                    <div className="identity-section">
+                        <span className="probability-detail-label">Identity States (Jacquard Δ)</span>
+                        <span className="identity-derived identity-error">
+                            The pedigree is too interlinked to compute these exactly
                         </span>
                     </div>
+                ) : identity && (
+                    <div className="identity-section">
+                        <span className="probability-detail-label">Identity States (Jacquard Δ)</span>
+                        <div className="identity-bar">
+                            {identity.delta.map((d, i) => d > 0 && (
+                                <div
+                                    key={i}
+                                    className={`identity-segment delta-${i + 1}`}
+                                    style={{ width: `${d * 100}%` }}
+                                    title={`Δ${i + 1} = ${formatCoefficient(d)}`}
+                                />
+                            ))}
+                        </div>
+                        <div className="identity-legend">
+                            {identity.delta.map((d, i) => d > 0 && (
+                                <span key={i} className="identity-legend-item">
+                                    <span className={`identity-swatch delta-${i + 1}`} />
+                                    Δ{i + 1} {formatCoefficient(d)}
+                                </span>
+                            ))}
+                        </div>
+                        {!identity.isInbred && (
+                            <div className="identity-ibd">
+                                <span>k0 {formatCoefficient(identity.k0)}</span>
+                                <span>k1 {formatCoefficient(identity.k1)}</span>
+                                <span>k2 {formatCoefficient(identity.k2)}</span>
+                            </div>
+                        )}
+                        <div className="identity-derived">
+                            r = 2(Δ1 + ½(Δ3 + Δ5 + Δ7) + ¼Δ8) = {formatCoefficient(identity.coefficientOfRelationship)}
+                        </div>
+                    </div>
                 )}
 
                 <div className="probability-detail-row baseline">
@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react';
+import type { DynamicPedigree } from '../../lib/dynamic-pedigree';
+import { CONDITION_PRESETS, calculateRecessiveRiskFromPedigree } from '../../lib/recessive-risk';
+import { calculateCarrierPosterior, type InheritanceMode } from '../../lib/carrier-risk';
+import './RecessiveRiskCard.css';
+
+interface RecessiveRiskCardProps {
+    pedigree: DynamicPedigree;
+    person1Label: string;
+    person2Label: string;
+}
+
+export function RecessiveRiskCard({ pedigree, person1Label, person2Label }: RecessiveRiskCardProps) {
+    const [presetId, setPresetId] = useState(CONDITION_PRESETS[0].id);
+    const [alleleFrequency, setAlleleFrequency] = useState(CONDITION_PRESETS[0].alleleFrequency);
+    const [mode, setMode] = useState<InheritanceMode>('autosomal-recessive');
+
+    const risk = useMemo(
+        () => calculateRecessiveRiskFromPedigree(pedigree, alleleFrequency),
+        [pedigree, alleleFrequency]
+    );
+
+    const hasPhenotypes = Array.from(pedigree.persons.values()).some(
+        p => p.status && p.status !== 'unknown'
+    );
+    // Carrier probabilities conditioned on the recorded phenotypes; without
+    // any, they are the priors above
+    const posteriors = useMemo(
+        () => (hasPhenotypes
+            ? pedigree.targetPair.map(id => calculateCarrierPosterior(pedigree, id, mode, alleleFrequency))
+            : []),
+        [pedigree, hasPhenotypes, mode, alleleFrequency]
+    );
+
+    const handlePresetChange = (id: string) => {
+        setPresetId(id);
+        const preset = CONDITION_PRESETS.find(p => p.id === id);
+        if (preset) setAlleleFrequency(preset.alleleFrequency);
+    };
+
+    const handleFrequencyChange = (value: string) => {
+        const q = parseFloat(value);
+        if (!Number.isFinite(q) || q <= 0 || q >= 1) return;
+        setPresetId('');
+        setAlleleFrequency(q);
+    };
+
+    const formatRisk = (value: number) => {
+        if (value <= 0) return '0';
+        return `${(value * 100).toPrecision(3)}% (1 in ${Math.round(1 / value).toLocaleString()})`;
+    };
+
+    return (
+        <div className="recessive-risk">
+            <label className="label">Recessive Disease Risk</label>
+            <p className="recessive-risk-description">
+                Autosomal-recessive risk for a child of the pair: q² + F·p·q
+            </p>
+
+            <div className="recessive-risk-controls">
+                <select
+                    className="select recessive-risk-preset"
+                    value={presetId}
+                    onChange={(e) => handlePresetChange(e.target.value)}
+                >
+                    <option value="">Custom allele frequency</option>
+                    {CONDITION_PRESETS.map(preset => (
+                        <option key={preset.id} value={preset.id}>{preset.label}</option>
+                    ))}
+                </select>
+                <label className="recessive-risk-q">
+                    q
+                    <input
+                        key={alleleFrequency}
+                        className="recessive-risk-input"
+                        type="number"
+                        min="0.0001"
+                        max="0.5"
+                        step="0.001"
+                        defaultValue={alleleFrequency}
+                        onBlur={(e) => handleFrequencyChange(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleFrequencyChange(e.currentTarget.value)}
+                    />
+                </label>
+            </div>
+
+            <div className="recessive-risk-rows">
+                <div className="probability-detail-row">
+                    <span className="probability-detail-label">Child affected</span>
+                    <span className="probability-detail-value">{formatRisk(risk.affectedRisk)}</span>
+                </div>
+                <div className="probability-detail-row">
+                    <span className="probability-detail-label">Unrelated couple</span>
+                    <span className="probability-detail-value">{formatRisk(risk.baselineRisk)}</span>
+                </div>
+                <div className="probability-detail-row">
+                    <span className="probability-detail-label">Excess risk</span>
+                    <span className="probability-detail-value recessive-risk-excess">
+                        +{(risk.excessRisk * 100).toPrecision(3)}% (×{risk.relativeRisk.toFixed(1)})
+                    </span>
+                </div>
+                <div className="probability-detail-row">
+                    <span className="probability-detail-label">{person1Label} is a carrier</span>
+                    <span className="probability-detail-value">{formatRisk(risk.carrierProbabilities[0])}</span>
+                </div>
+                <div className="probability-detail-row">
+                    <span className="probability-detail-label">{person2Label} is a carrier</span>
+                    <span className="probability-detail-value">{formatRisk(risk.carrierProbabilities[1])}</span>
+                </div>
+            </div>
+
+            <div className="recessive-risk-posterior">
+                <div className="recessive-risk-posterior-header">
+                    <span className="recessive-risk-posterior-title">Given phenotypes</span>
+                    <select
+                        className="select recessive-risk-mode"
+                        value={mode}
+                        onChange={(e) => setMode(e.target.value as InheritanceMode)}
+                    >
+                        <option value="autosomal-recessive">Autosomal recessive</option>
+                        <option value="x-linked-recessive">X-linked recessive</option>
+                    </select>
+                </div>
+                {!hasPhenotypes ? (
+                    <p className="recessive-risk-description">
+                        Right-click a person in the graph to mark them affected, carrier or unaffected
+                    </p>
+                ) : posteriors.includes('too-complex') ? (
+                    <p className="recessive-risk-description recessive-risk-error">
+                        The pedigree is too interlinked to compute this exactly
+                    </p>
+                ) : posteriors.every(p => p === null) ? (
+                    <p className="recessive-risk-description recessive-risk-error">
+                        The recorded phenotypes are inconsistent with {mode === 'autosomal-recessive' ? 'autosomal' : 'X-linked'} recessive inheritance
+                    </p>
+                ) : (
+                    [person1Label, person2Label].map((label, i) => {
+                        const result = posteriors[i];
+                        const posterior = result === 'too-complex' ? null : result;
+                        return (
+                            <div key={i} className="probability-detail-row">
+                                <span className="probability-detail-label">{label} is a carrier</span>
+                                <span className="probability-detail-value">
+                                    {posterior ? formatRisk(posterior.carrier) : '—'}
+                                    {posterior && posterior.affected > 0 && (
+                                        <span className="recessive-risk-affected"> · affected {formatRisk(posterior.affected)}</span>
+                                    )}
+                                </span>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import {
+    buildRelationshipCandidates,
+    inferRelationships,
+    simulateCandidates,
+    type CandidateDistribution,
+} from '../../lib/relationship-inference';
+import './RelationshipInference.css';
+
+/** Number of ranked relationships listed */
+const MAX_MATCHES = 8;
+
+export function RelationshipInference() {
+    const [sharedCm, setSharedCm] = useState('');
+    const [segments, setSegments] = useState('');
+    // Simulated once on first use; the candidates do not depend on the input
+    const [distributions, setDistributions] = useState<CandidateDistribution[] | null>(null);
+
+    const observedCm = parseFloat(sharedCm);
+    const observedSegments = segments.trim() === '' ? undefined : parseInt(segments, 10);
+    const isValid = Number.isFinite(observedCm) && observedCm >= 0 &&
+        (observedSegments === undefined || (Number.isFinite(observedSegments) && observedSegments >= 0));
+
+    const matches = useMemo(() => {
+        if (!distributions || !isValid) return [];
+        return inferRelationships(distributions, observedCm, observedSegments).slice(0, MAX_MATCHES);
+    }, [distributions, isValid, observedCm, observedSegments]);
+
+    const handleEstimate = () => {
+        if (!distributions) setDistributions(simulateCandidates(buildRelationshipCandidates()));
+    };
+
+    return (
+        <div className="relationship-inference">
+            <label className="label">Infer Relationship from DNA</label>
+            <p className="relationship-inference-description">
+                Enter the shared centiMorgans from a DNA test to rank the relationships that fit,
+                including families where parents are cousins
+            </p>
+
+            <div className="relationship-inference-inputs">
+                <label className="relationship-inference-field">
+                    Shared cM
+                    <input
+                        className="relationship-inference-input"
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={sharedCm}
+                        onChange={(e) => setSharedCm(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleEstimate()}
+                    />
+                </label>
+                <label className="relationship-inference-field">
+                    Segments
+                    <input
+                        className="relationship-inference-input"
+                        type="number"
+                        min="0"
+                        step="1"
+                        placeholder="optional"
+                        value={segments}
+                        onChange={(e) => setSegments(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleEstimate()}
+                    />
+                </label>
+            </div>
+
+            {!distributions && (
+                <button className="btn btn-secondary" disabled={!isValid} onClick={handleEstimate}>
+                    Estimate
+                </button>
+            )}
+
+            {matches.length > 0 && (
+                <div className="relationship-inference-matches">
+                    {matches.map(match => (
+                        <div key={match.candidate.id} className="relationship-inference-match">
+                            <div className="relationship-inference-match-header">
+                                <span className={`relationship-inference-name ${match.candidate.endogamy ? 'endogamous' : ''}`}>
+                                    {match.candidate.label}
+                                </span>
+                                <span className="relationship-inference-probability">
+                                    {(match.probability * 100).toFixed(1)}%
+                                </span>
+                            </div>
+                            <div className="relationship-inference-bar">
+                                <div
+                                    className="relationship-inference-bar-fill"
+                                    style={{ width: `${match.probability * 100}%` }}
+                                />
+                            </div>
+                            <span className="relationship-inference-range">
+                                expected {match.expectedCm.toFixed(0)} cM · typical {match.rangeCm[0].toFixed(0)}–{match.rangeCm[1].toFixed(0)} cM
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { DynamicPedigree } from '../../lib/dynamic-pedigree';
+import type { IdentityCoefficientsResult } from '../../lib/identity-coefficients';
+import {
+    DEFAULT_SEGMENT_OPTIONS,
+    simulateSegments,
+    type SegmentSimulationResult,
+    type SegmentStats,
+} from '../../lib/segment-simulation';
+import { GENOME_LENGTH_CM } from '../../lib/genetic-map';
+import { randomSeed } from '../../lib/random';
+import './SegmentSharingCard.css';
+
+interface SegmentSharingCardProps {
+    pedigree: DynamicPedigree;
+    /** Identity coefficients of the target pair, for the analytic expectations */
+    identity: IdentityCoefficientsResult;
+}
+
+export function SegmentSharingCard({ pedigree, identity }: SegmentSharingCardProps) {
+    // Simulated on request only, since it takes seconds on large pedigrees;
+    // a run belongs to the pedigree it was made on
+    const [run, setRun] = useState<{ pedigree: DynamicPedigree; result: SegmentSimulationResult } | null>(null);
+    const result = run?.pedigree === pedigree ? run.result : null;
+
+    const simulate = (seed: number) => setRun({
+        pedigree,
+        result: simulateSegments(pedigree, { ...DEFAULT_SEGMENT_OPTIONS, seed }, identity),
+    });
+
+    const formatCm = (value: number) => `${value.toFixed(value < 10 ? 1 : 0)} cM`;
+    const percentOfGenome = (value: number) => `${((value / GENOME_LENGTH_CM) * 100).toFixed(1)}%`;
+    const threshold = DEFAULT_SEGMENT_OPTIONS.minSegmentCm;
+
+    const renderStats = (title: string, stats: SegmentStats) => (
+        <div className="segment-sharing-group">
+            <span className="segment-sharing-title">{title}</span>
+            {stats.expectedCm !== null && (
+                <div className="probability-detail-row">
+                    <span className="probability-detail-label">Expected total</span>
+                    <span className="probability-detail-value">
+                        {formatCm(stats.expectedCm)} ({percentOfGenome(stats.expectedCm)})
+                    </span>
+                </div>
+            )}
+            <div className="probability-detail-row">
+                <span className="probability-detail-label">Simulated total</span>
+                <span className="probability-detail-value">{formatCm(stats.meanTotalCm)}</span>
+            </div>
+            <div className="probability-detail-row">
+                <span className="probability-detail-label">Detectable (≥ {threshold} cM)</span>
+                <span className="probability-detail-value">
+                    {formatCm(stats.meanDetectableCm)}
+                    <span className="segment-sharing-range">
+                        {' '}({stats.detectableRangeCm[0].toFixed(0)}–{stats.detectableRangeCm[1].toFixed(0)})
+                    </span>
+                </span>
+            </div>
+            <div className="probability-detail-row">
+                <span className="probability-detail-label">Segments</span>
+                <span className="probability-detail-value">{stats.meanSegments.toFixed(1)}</span>
+            </div>
+            <div className="probability-detail-row">
+                <span className="probability-detail-label">Longest segment</span>
+                <span className="probability-detail-value">{formatCm(stats.meanLongestCm)}</span>
+            </div>
+            <div className="probability-detail-row">
+                <span className="probability-detail-label">None detected</span>
+                <span className="probability-detail-value">{(stats.noneDetected * 100).toFixed(1)}%</span>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="segment-sharing">
+            <label className="label">DNA Segment Sharing</label>
+            <p className="segment-sharing-description">
+                Chromosomes inherited with recombination (Haldane map, {GENOME_LENGTH_CM.toLocaleString()} cM
+                autosomal genome), averaged over {DEFAULT_SEGMENT_OPTIONS.replicates} simulations; ranges are 90% intervals
+            </p>
+
+            {result ? (
+                <>
+                    {renderStats('Shared by the pair', result.shared)}
+                    {renderStats('Runs of homozygosity in a child', result.roh)}
+
+                    <div className="segment-sharing-footer">
+                        <span className="segment-sharing-seed">Seed {result.options.seed}</span>
+                        <button className="btn btn-secondary" onClick={() => simulate(randomSeed())}>
+                            Re-run
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <div className="segment-sharing-footer">
+                    <span className="segment-sharing-description">
+                        {run ? 'The pedigree has changed since the last simulation' : ''}
+                    </span>
+                    <button className="btn btn-secondary" onClick={() => simulate(DEFAULT_SEGMENT_OPTIONS.seed)}>
+                        Simulate
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,261 @@
+import type { PhenotypeStatus, Sex } from '../types';
+import { getParents, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+
+export type InheritanceMode = 'autosomal-recessive' | 'x-linked-recessive';
+
+/**
+ * Posterior genotype probabilities of a target given every status in the pedigree
+ */
+export interface CarrierPosterior {
+    /** Heterozygous carrier (for an X-linked male: hemizygous for the allele) */
+    carrier: number;
+    /** Homozygous (or hemizygous) for the disease allele */
+    affected: number;
+}
+
+/**
+ * `calculateCarrierPosterior` gives up when exact elimination would build a
+ * table larger than MAX_FACTOR_SIZE entries
+ */
+export type CarrierPosteriorResult = CarrierPosterior | 'too-complex' | null;
+
+/**
+ * Largest intermediate table (genotype combinations) exact elimination may build,
+ * about a tenth of a second of work; each further genotype in it triples that
+ */
+const MAX_FACTOR_SIZE = 200_000;
+
+/**
+ * A discrete factor over genotype variables, stored row-major (last variable fastest)
+ */
+interface Factor {
+    vars: string[];
+    cards: number[];
+    values: number[];
+}
+
+// Genotype states: 0 = AA, 1 = Aa, 2 = aa; X-linked males: 0 = A, 1 = a
+
+function stateCount(sex: Sex, mode: InheritanceMode): number {
+    return mode === 'x-linked-recessive' && sex === 'M' ? 2 : 3;
+}
+
+/**
+ * Probability that a parent in a given state transmits the disease allele
+ */
+function transmitProbability(state: number, isHemizygous: boolean): number {
+    if (isHemizygous) return state;
+    return state / 2;
+}
+
+/**
+ * Genotype probabilities of a child given the disease-allele transmission
+ * probability from each parent (null: the parent does not transmit an X)
+ */
+function childDistribution(fromMother: number, fromFather: number | null): number[] {
+    if (fromFather === null) return [1 - fromMother, fromMother];
+    return [
+        (1 - fromMother) * (1 - fromFather),
+        fromMother * (1 - fromFather) + (1 - fromMother) * fromFather,
+        fromMother * fromFather,
+    ];
+}
+
+/**
+ * Genotype states compatible with an observed status (full penetrance)
+ */
+function allowedStates(status: PhenotypeStatus | undefined, states: number): boolean[] {
+    const affectedState = states - 1;
+    return Array.from({ length: states }, (_, g) => {
+        switch (status) {
+            case 'affected':
+                return g === affectedState;
+            case 'carrier':
+                // Heterozygote; for a hemizygous male this is the allele-carrying state
+                return g === 1;
+            case 'unaffected':
+                return g !== affectedState;
+            default:
+                return true;
+        }
+    });
+}
+
+/**
+ * Multiply factors and sum out one variable
+ */
+function eliminate(factors: Factor[], variable: string, cards: Map<string, number>): Factor {
+    const vars = Array.from(new Set(factors.flatMap(f => f.vars))).filter(v => v !== variable);
+    const result: Factor = { vars, cards: vars.map(v => cards.get(v)!), values: [] };
+    const size = result.cards.reduce((a, b) => a * b, 1);
+
+    // One assignment array (result variables, then the eliminated one), and
+    // for each factor the positions of its variables in it
+    const allVars = [...vars, variable];
+    const positions = factors.map(f => f.vars.map(v => allVars.indexOf(v)));
+    const assignment = new Array<number>(allVars.length).fill(0);
+    const variableStates = cards.get(variable)!;
+
+    for (let index = 0; index < size; index++) {
+        let rest = index;
+        for (let i = vars.length - 1; i >= 0; i--) {
+            assignment[i] = rest % result.cards[i];
+            rest = Math.floor(rest / result.cards[i]);
+        }
+
+        let sum = 0;
+        for (let g = 0; g < variableStates; g++) {
+            assignment[vars.length] = g;
+            let product = 1;
+            for (let k = 0; k < factors.length && product !== 0; k++) {
+                const factor = factors[k];
+                let factorIndex = 0;
+                for (let j = 0; j < factor.vars.length; j++) {
+                    factorIndex = factorIndex * factor.cards[j] + assignment[positions[k][j]];
+                }
+                product *= factor.values[factorIndex];
+            }
+            sum += product;
+        }
+        result.values.push(sum);
+    }
+
+    return result;
+}
+
+/**
+ * Greedy elimination order (smallest resulting factor first), planned on the
+ * variable sets alone, with the largest table it would build along the way
+ */
+function planElimination(
+    factorVars: string[][],
+    cards: Map<string, number>,
+    keep: string
+): { order: string[]; largestFactor: number } {
+    let scopes = factorVars.map(vars => new Set(vars));
+    const remaining = new Set(Array.from(cards.keys()).filter(id => id !== keep));
+    const order: string[] = [];
+    let largestFactor = 1;
+
+    while (remaining.size > 0) {
+        let best = '';
+        let bestNeighbours = new Set<string>();
+        let bestSize = Infinity;
+        for (const variable of remaining) {
+            const neighbours = new Set<string>();
+            scopes.forEach(scope => { if (scope.has(variable)) scope.forEach(v => neighbours.add(v)); });
+            let size = 1;
+            neighbours.forEach(v => { if (v !== variable) size *= cards.get(v)!; });
+            if (size < bestSize) {
+                best = variable;
+                bestNeighbours = neighbours;
+                bestSize = size;
+            }
+        }
+
+        // The product table also spans the eliminated variable
+        largestFactor = Math.max(largestFactor, bestSize * cards.get(best)!);
+        bestNeighbours.delete(best);
+        scopes = [...scopes.filter(scope => !scope.has(best)), bestNeighbours];
+        order.push(best);
+        remaining.delete(best);
+    }
+
+    return { order, largestFactor };
+}
+
+/**
+ * Build genotype factors: founder priors (Hardy-Weinberg), Mendelian
+ * transmission and the evidence from each person's status
+ */
+function buildFactors(
+    pedigree: DynamicPedigree,
+    mode: InheritanceMode,
+    alleleFrequency: number
+): { factors: Factor[]; cards: Map<string, number> } {
+    const q = alleleFrequency;
+    const persons = Array.from(pedigree.persons.values()).filter(p => !pedigree.merges.has(p.id));
+    const cards = new Map(persons.map(p => [p.id, stateCount(p.sex, mode)]));
+    const factors: Factor[] = [];
+
+    for (const person of persons) {
+        const states = cards.get(person.id)!;
+        const isXMale = mode === 'x-linked-recessive' && person.sex === 'M';
+        const { father, mother } = getParents(pedigree, person.id);
+
+        // Parents missing from the pedigree transmit like a random population allele
+        const parentVars = [mother, father].filter((id): id is string => !!id && cards.has(id));
+        const vars = [...parentVars, person.id];
+        const factorCards = vars.map(v => cards.get(v)!);
+        const size = factorCards.reduce((a, b) => a * b, 1);
+        const allowed = allowedStates(person.status, states);
+        const values: number[] = [];
+
+        const assignment = new Array<number>(vars.length).fill(0);
+        for (let index = 0; index < size; index++) {
+            let rest = index;
+            for (let i = vars.length - 1; i >= 0; i--) {
+                assignment[i] = rest % factorCards[i];
+                rest = Math.floor(rest / factorCards[i]);
+            }
+
+            const fromParent = (parentId: string | undefined) => {
+                const position = parentId ? parentVars.indexOf(parentId) : -1;
+                return position >= 0
+                    ? transmitProbability(assignment[position], factorCards[position] === 2)
+                    : q;
+            };
+            const fromMother = fromParent(mother);
+            // X-linked: sons receive no X from their father
+            const fromFather = isXMale ? null : fromParent(father);
+
+            const g = assignment[vars.length - 1];
+            values.push(allowed[g] ? childDistribution(fromMother, fromFather)[g] : 0);
+        }
+
+        factors.push({ vars, cards: factorCards, values });
+    }
+
+    return { factors, cards };
+}
+
+/**
+ * Posterior carrier/affected probabilities of one person, conditioning on the
+ * statuses of everyone in the pedigree. Uses exact variable elimination
+ * (generalized peeling), which also handles consanguineous loops.
+ * Returns null if the statuses are inconsistent with Mendelian inheritance,
+ * and 'too-complex' when the pedigree is too interlinked to compute exactly.
+ */
+export function calculateCarrierPosterior(
+    pedigree: DynamicPedigree,
+    personId: string,
+    mode: InheritanceMode,
+    alleleFrequency: number
+): CarrierPosteriorResult {
+    const target = resolveId(personId, pedigree.merges);
+    const { factors: initialFactors, cards } = buildFactors(pedigree, mode, alleleFrequency);
+    let factors = initialFactors;
+    if (!cards.has(target)) return null;
+
+    const { order, largestFactor } = planElimination(factors.map(f => f.vars), cards, target);
+    if (largestFactor > MAX_FACTOR_SIZE) return 'too-complex';
+
+    for (const variable of order) {
+        const involved = factors.filter(f => f.vars.includes(variable));
+        factors = factors.filter(f => !f.vars.includes(variable));
+        factors.push(eliminate(involved, variable, cards));
+    }
+
+    // Every factor left is over the target alone, or a constant
+    const states = cards.get(target)!;
+    const marginal = Array.from({ length: states }, (_, g) =>
+        factors.reduce((product, f) => product * f.values[f.vars.length === 0 ? 0 : g], 1)
+    );
+    const total = marginal.reduce((a, b) => a + b, 0);
+    if (total <= 0) return null;
+
+    return {
+        carrier: marginal[1] / total,
+        affected: marginal[states - 1] / total,
+    };
+}
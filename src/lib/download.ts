@@ -0,0 +1,15 @@
+/**
+ * Offer text or binary content to the user as a file download
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    // Revoking right away can cancel the download in some browsers (Safari, Firefox)
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,4 +1,14 @@
-import type { Person, FamilyGraph, RelationshipType, Sex, ConsanguinityLink, ParentChildEdge } from '../types';
+import type {
+    Person,
+    FamilyGraph,
+    RelationshipType,
+    Sex,
+    ConsanguinityLink,
+    ParentChildEdge,
+    PhenotypeStatus,
+    ContributingPath,
+} from '../types';
+import { createDepthFunction, createKinshipCalculator } from './kinship';
 
 /**
  * Represents a defined relationship between two nodes
@@ -6,7 +16,30 @@ import type { Person, FamilyGraph, RelationshipType, Sex, ConsanguinityLink, Par
 export interface NodeRelationship {
     person1Id: string;
     person2Id: string;
-    type: 'siblings' | 'half-siblings' | 'spouse' | 'first-cousins' | 'second-cousins' | 'unrelated';
+    type:
+        | 'siblings'
+        | 'half-siblings'
+        | 'spouse'
+        | 'first-cousins'
+        | 'second-cousins'
+        | 'parent-child'
+        | 'avuncular'
+        | 'grandparent-grandchild'
+        | 'first-cousins-once-removed'
+        | 'unrelated';
+    /** What applying the relationship added, so it can be taken back on its own */
+    changes?: RelationshipChanges;
+}
+
+/**
+ * Structural changes made by one defined relationship
+ */
+export interface RelationshipChanges {
+    /** Persons merged away (keys added to `merges`) */
+    merges: string[];
+    /** Persons created, e.g. missing parents */
+    persons: string[];
+    edges: ParentChildEdge[];
 }
 
 /**
@@ -25,6 +58,16 @@ export interface DynamicPedigree {
     merges: Map<string, string>;
 }
 
+/**
+ * Outcome of loading a pedigree from a file
+ */
+export interface PedigreeImportResult {
+    /** The imported pedigree, or null if the file holds fewer than two individuals */
+    pedigree: DynamicPedigree | null;
+    /** Human-readable notes on records and values that were skipped or guessed */
+    skipped: string[];
+}
+
 /**
  * Generate initial pedigree nodes for a base relationship type
  * Creates all nodes without any consanguinity - pure baseline
@@ -134,7 +177,7 @@ export function generateBasePedigree(
             addPerson('p1', 'Uncle/Aunt', person1Sex, 1);
             addPerson('p2', 'Nephew/Niece', person2Sex, 2);
             addPerson('sibling', 'Parent', person1Sex === 'M' ? 'F' : 'M', 1);
-            addPerson('spouse', 'Spouse', person1Sex === 'M' ? 'F' : 'M', 1);
+            addPerson('spouse', 'Spouse', person1Sex, 1);
             addPerson('gf', 'Grandfather', 'M', 0);
             addPerson('gm', 'Grandmother', 'F', 0);
             addPerson('gf-spouse', 'Grandfather (in-law)', 'M', 0);
@@ -189,204 +232,926 @@ export function generateBasePedigree(
     };
 }
 
-type InbreedingCache = Map<string, number>;
+/**
+ * Maximum number of ancestral paths listed by `listContributingPaths`.
+ * r and F never depend on this: they come from the kinship engine.
+ */
+const MAX_CONTRIBUTING_PATHS = 500;
+/** Maximum number of paths followed up from each of the pair while searching */
+const MAX_ANCESTOR_PATHS = 2000;
 
 /**
- * Calculate inbreeding coefficient from the dynamic pedigree
- * Uses path-counting through the actual graph structure
+ * Build the resolved parent list of every person (merges applied, duplicates removed)
+ */
+export function buildParentMap(pedigree: Pick<DynamicPedigree, 'edges' | 'merges'>): Map<string, string[]> {
+    const parentOf = new Map<string, string[]>();
+    for (const edge of pedigree.edges) {
+        const child = resolveId(edge.childId, pedigree.merges);
+        const parent = resolveId(edge.parentId, pedigree.merges);
+        if (!parentOf.has(child)) parentOf.set(child, []);
+        if (!parentOf.get(child)!.includes(parent)) {
+            parentOf.get(child)!.push(parent);
+        }
+    }
+    return parentOf;
+}
+
+/**
+ * Calculate relationship and inbreeding coefficients from the dynamic pedigree
+ * Uses the memoized kinship engine on the actual graph structure: r = 2φ, F = φ
  */
 export function calculateFromPedigree(pedigree: DynamicPedigree): {
     coefficientOfRelationship: number;
     inbreedingCoefficient: number;
-    contributingPaths: string[][];
 } {
-    const [id1, id2] = pedigree.targetPair;
-    const cache: InbreedingCache = new Map();
+    const id1 = resolveId(pedigree.targetPair[0], pedigree.merges);
+    const id2 = resolveId(pedigree.targetPair[1], pedigree.merges);
 
-    const result = calculateRAndPaths(resolveId(id1, pedigree.merges), resolveId(id2, pedigree.merges), pedigree, cache);
+    const phi = createKinshipCalculator(buildParentMap(pedigree)).kinship(id1, id2);
 
     return {
-        coefficientOfRelationship: Math.min(result.r, 1), // Cap at 1
-        inbreedingCoefficient: result.r / 2,
-        contributingPaths: result.paths,
+        coefficientOfRelationship: Math.min(2 * phi, 1), // Cap at 1
+        inbreedingCoefficient: phi,
     };
 }
 
-function calculateRAndPaths(id1: string, id2: string, pedigree: DynamicPedigree, cache: InbreedingCache): { r: number, paths: string[][] } {
-    const validPaths = findAllPaths(id1, id2, pedigree);
-    
-    let r = 0;
-    const contributingPaths: string[][] = [];
+/**
+ * Paths from a person up to each of their ancestors, shortest first.
+ * The search stops at MAX_ANCESTOR_PATHS, since a looped pedigree has
+ * exponentially many of them.
+ */
+function getAncestorPaths(startId: string, parentOf: Map<string, string[]>): { paths: string[][]; complete: boolean } {
+    const paths: string[][] = [[startId]];
 
-    for (const p of validPaths) {
-        const n = p.path.length - 1; // number of steps (edges)
-        const FA = getInbreeding(p.commonAncestor, pedigree, cache);
-        r += Math.pow(0.5, n) * (1 + FA);
-        contributingPaths.push(p.path);
+    for (let next = 0; next < paths.length; next++) {
+        const path = paths[next];
+        for (const parent of parentOf.get(path[path.length - 1]) || []) {
+            if (path.includes(parent)) continue;
+            if (paths.length >= MAX_ANCESTOR_PATHS) return { paths, complete: false };
+            paths.push([...path, parent]);
+        }
     }
 
-    return { r, paths: contributingPaths };
+    return { paths, complete: true };
 }
 
-function getInbreeding(id: string, pedigree: DynamicPedigree, cache: InbreedingCache): number {
-    if (cache.has(id)) return cache.get(id)!;
+/**
+ * List the ancestral paths joining the target pair through a common ancestor,
+ * each with its share of r, for display only. The search is bounded, so the
+ * list may be cut off (`truncated`); it then holds the shortest paths, which
+ * contribute the most.
+ */
+export function listContributingPaths(pedigree: Pick<DynamicPedigree, 'edges' | 'merges' | 'targetPair'>): {
+    paths: ContributingPath[];
+    truncated: boolean;
+} {
+    const id1 = resolveId(pedigree.targetPair[0], pedigree.merges);
+    const id2 = resolveId(pedigree.targetPair[1], pedigree.merges);
+    const parentOf = buildParentMap(pedigree);
+    const calculator = createKinshipCalculator(parentOf);
+
+    const ancestorsA = getAncestorPaths(id1, parentOf);
+    const ancestorsB = getAncestorPaths(id2, parentOf);
+    let truncated = !ancestorsA.complete || !ancestorsB.complete;
 
-    // Find parents
-    const parents = pedigree.edges
-        .filter(e => resolveId(e.childId, pedigree.merges) === id)
-        .map(e => resolveId(e.parentId, pedigree.merges));
-        
-    const uniqueParents = Array.from(new Set(parents));
-    if (uniqueParents.length < 2) {
-        cache.set(id, 0);
-        return 0;
+    // Index the second person's paths by the ancestor they end at, so only
+    // paths through the same ancestor are ever compared
+    const pathsBByAncestor = new Map<string, string[][]>();
+    for (const pathB of ancestorsB.paths) {
+        const ancestor = pathB[pathB.length - 1];
+        if (!pathsBByAncestor.has(ancestor)) pathsBByAncestor.set(ancestor, []);
+        pathsBByAncestor.get(ancestor)!.push(pathB);
+    }
+
+    const paths: ContributingPath[] = [];
+    const seenPathKeys = new Set<string>();
+
+    search: for (const pathA of ancestorsA.paths) {
+        const commonAncestor = pathA[pathA.length - 1];
+        const setA = new Set(pathA);
+
+        for (const pathB of pathsBByAncestor.get(commonAncestor) || []) {
+            // Paths may only meet at the common ancestor
+            if (pathB.some((node, i) => i < pathB.length - 1 && setA.has(node))) continue;
+
+            const personIds = [...pathA, ...pathB.slice(0, -1).reverse()];
+            const key = personIds.join(',');
+            if (seenPathKeys.has(key)) continue;
+            seenPathKeys.add(key);
+
+            if (paths.length >= MAX_CONTRIBUTING_PATHS) {
+                truncated = true;
+                break search;
+            }
+            const steps = personIds.length - 1;
+            const ancestorInbreeding = calculator.inbreeding(commonAncestor);
+            paths.push({
+                personIds,
+                commonAncestorId: commonAncestor,
+                steps,
+                ancestorInbreeding,
+                contribution: Math.pow(0.5, steps) * (1 + ancestorInbreeding),
+            });
+        }
     }
-    
-    const [p1, p2] = uniqueParents;
-    const { r } = calculateRAndPaths(p1, p2, pedigree, cache);
-    const F = r / 2;
-    cache.set(id, F);
-    return F;
+
+    return { paths, truncated };
 }
 
-function getAncestorPaths(startId: string, pedigree: DynamicPedigree): string[][] {
-    const parentOf = new Map<string, string[]>();
+/**
+ * Resolve an ID through the merge map
+ * (a corrupt, looping merge chain stops at the last new ID; see validatePedigree)
+ */
+export function resolveId(id: string, merges: Map<string, string>): string {
+    let resolved = id;
+    for (let steps = 0; merges.has(resolved) && steps < merges.size; steps++) {
+        resolved = merges.get(resolved)!;
+    }
+    return resolved;
+}
+
+/**
+ * Get the resolved parents of a person, split by sex
+ */
+export function getParents(pedigree: DynamicPedigree, id: string): { father?: string; mother?: string } {
+    const childId = resolveId(id, pedigree.merges);
+    const parents: { father?: string; mother?: string } = {};
+
     for (const edge of pedigree.edges) {
-        const child = resolveId(edge.childId, pedigree.merges);
-        const parent = resolveId(edge.parentId, pedigree.merges);
-        if (!parentOf.has(child)) parentOf.set(child, []);
-        if (!parentOf.get(child)!.includes(parent)) {
-            parentOf.get(child)!.push(parent);
-        }
+        if (resolveId(edge.childId, pedigree.merges) !== childId) continue;
+        const parentId = resolveId(edge.parentId, pedigree.merges);
+        const sex = pedigree.persons.get(parentId)?.sex;
+        if (sex === 'M' && !parents.father) parents.father = parentId;
+        if (sex === 'F' && !parents.mother) parents.mother = parentId;
     }
-    
-    const paths: string[][] = [];
-    
-    function dfs(currentId: string, currentPath: string[]) {
-        paths.push([...currentPath]);
-        const parents = parentOf.get(currentId) || [];
-        for (const parent of parents) {
-            if (!currentPath.includes(parent)) {
-                dfs(parent, [...currentPath, parent]);
+
+    return parents;
+}
+
+/**
+ * Generate an ID not yet used by any person in the pedigree
+ */
+function nextPersonId(pedigree: DynamicPedigree, prefix: string): string {
+    let n = 1;
+    while (pedigree.persons.has(`${prefix}-${n}`)) n++;
+    return `${prefix}-${n}`;
+}
+
+/**
+ * Create a new founder parent of the given sex for a person (mutates the working pedigree)
+ */
+function createParent(pedigree: DynamicPedigree, childId: string, sex: Sex): string {
+    const child = pedigree.persons.get(childId)!;
+    const parentId = nextPersonId(pedigree, sex === 'M' ? 'father' : 'mother');
+    const label = `${sex === 'M' ? 'Father' : 'Mother'} of ${child.label}`;
+    pedigree.persons.set(parentId, { id: parentId, label, sex, generation: child.generation - 1 });
+    pedigree.edges.push({ parentId, childId });
+    return parentId;
+}
+
+/**
+ * Create any missing parent of a person (mutates the working pedigree)
+ */
+function ensureParents(pedigree: DynamicPedigree, id: string): { father: string; mother: string } {
+    const childId = resolveId(id, pedigree.merges);
+    const { father, mother } = getParents(pedigree, childId);
+
+    return {
+        father: father ?? createParent(pedigree, childId, 'M'),
+        mother: mother ?? createParent(pedigree, childId, 'F'),
+    };
+}
+
+/**
+ * Merge one person into another, unifying their ancestry by sex (mutates the working pedigree)
+ */
+function mergePerson(pedigree: DynamicPedigree, keepId: string, dropId: string): void {
+    const keep = resolveId(keepId, pedigree.merges);
+    const drop = resolveId(dropId, pedigree.merges);
+    if (keep === drop) return;
+
+    const keepParents = getParents(pedigree, keep);
+    const dropParents = getParents(pedigree, drop);
+    pedigree.merges.set(drop, keep);
+
+    // Once merged, the person must not end up with two fathers or two mothers
+    if (keepParents.father && dropParents.father) {
+        mergePerson(pedigree, keepParents.father, dropParents.father);
+    }
+    if (keepParents.mother && dropParents.mother) {
+        mergePerson(pedigree, keepParents.mother, dropParents.mother);
+    }
+}
+
+/**
+ * Whether two persons share both a defined father and a defined mother
+ */
+function areFullSiblings(pedigree: DynamicPedigree, id1: string, id2: string): boolean {
+    const parents1 = getParents(pedigree, id1);
+    const parents2 = getParents(pedigree, id2);
+    return !!parents1.father && !!parents1.mother &&
+        parents1.father === parents2.father &&
+        parents1.mother === parents2.mother;
+}
+
+/**
+ * Make two persons share both parents, or only the father for half-siblings
+ */
+function makeSiblings(pedigree: DynamicPedigree, id1: string, id2: string, half: boolean): void {
+    if (resolveId(id1, pedigree.merges) === resolveId(id2, pedigree.merges)) return;
+
+    const parents1 = ensureParents(pedigree, id1);
+    const parents2 = ensureParents(pedigree, id2);
+
+    mergePerson(pedigree, parents1.father, parents2.father);
+    if (!half) {
+        mergePerson(pedigree, parents1.mother, parents2.mother);
+    }
+}
+
+/**
+ * Collect the ancestors `depth` generations above a person, creating parents
+ * for anyone in the line who has none (fathers listed before mothers)
+ */
+function ancestorsAtDepth(pedigree: DynamicPedigree, id: string, depth: number): string[] {
+    let level = [resolveId(id, pedigree.merges)];
+
+    for (let i = 0; i < depth; i++) {
+        const next: string[] = [];
+        for (const personId of level) {
+            let { father, mother } = getParents(pedigree, personId);
+            if (!father && !mother) {
+                ({ father, mother } = ensureParents(pedigree, personId));
+            }
+            for (const parentId of [father, mother]) {
+                if (parentId && !next.includes(parentId)) next.push(parentId);
             }
         }
+        level = next;
     }
-    
-    dfs(startId, [startId]);
-    return paths;
+
+    return level;
 }
 
-function findAllPaths(id1: string, id2: string, pedigree: DynamicPedigree): { path: string[], commonAncestor: string }[] {
-    const pathsA = getAncestorPaths(id1, pedigree);
-    const pathsB = getAncestorPaths(id2, pedigree);
-    
-    const validFullPaths: { path: string[], commonAncestor: string }[] = [];
-    const seenPathKeys = new Set<string>();
+/**
+ * Make two persons cousins of the given degree by turning one ancestor of each,
+ * `degree` generations up, into full siblings. Returns false if no pair of
+ * those ancestors can become siblings without also making a couple siblings,
+ * or someone their own ancestor.
+ */
+function makeCousins(pedigree: DynamicPedigree, id1: string, id2: string, degree: number): boolean {
+    const candidates1 = ancestorsAtDepth(pedigree, id1, degree);
+    const candidates2 = ancestorsAtDepth(pedigree, id2, degree);
 
-    for (const pathA of pathsA) {
-        for (const pathB of pathsB) {
-            const ancestorA = pathA[pathA.length - 1];
-            const ancestorB = pathB[pathB.length - 1];
-            
-            if (ancestorA === ancestorB) {
-                const setB = new Set(pathB);
-                let intersectionCount = 0;
-                for (const node of pathA) {
-                    if (setB.has(node)) intersectionCount++;
-                }
-                
-                if (intersectionCount === 1) {
-                    const commonAncestor = ancestorA;
-                    const fullPath = [...pathA, ...pathB.slice(0, -1).reverse()];
-                    const key = fullPath.join(',');
-                    if (!seenPathKeys.has(key)) {
-                        seenPathKeys.add(key);
-                        validFullPaths.push({ path: fullPath, commonAncestor });
-                    }
+    // A repeated declaration links two lines that are not related yet
+    // (double first cousins: the mothers become sisters once the fathers
+    // are brothers), and never turns a couple into siblings
+    const { kinship } = createKinshipCalculator(buildParentMap(pedigree));
+    const isRelated = ([a, b]: [string, string]) => kinship(a, b) > 0;
+    const pairs = candidates1
+        .flatMap(a => candidates2.map((b): [string, string] => [a, b]))
+        .filter(([a, b]) => a !== b && !areFullSiblings(pedigree, a, b))
+        .sort((x, y) => Number(isRelated(x)) - Number(isRelated(y)));
+
+    const siblingMatingsBefore = siblingMatingOffspring(pedigree);
+    return applyBestCandidate(pedigree, [id1, id2], pairs, (working, [a, b]) => {
+        makeSiblings(working, a, b, false);
+        return Array.from(siblingMatingOffspring(working)).every(id => siblingMatingsBefore.has(id));
+    });
+}
+
+/**
+ * Persons (after merges) whose father and mother are full siblings
+ */
+function siblingMatingOffspring(pedigree: DynamicPedigree): Set<string> {
+    const ids = new Set(Array.from(pedigree.persons.keys()).map(id => resolveId(id, pedigree.merges)));
+    return new Set(Array.from(ids).filter(id => {
+        const { father, mother } = getParents(pedigree, id);
+        return !!father && !!mother && areFullSiblings(pedigree, father, mother);
+    }));
+}
+
+/**
+ * Copy the mutable parts of a pedigree so helpers can work on it freely
+ */
+function clonePedigree(pedigree: DynamicPedigree): DynamicPedigree {
+    return {
+        ...pedigree,
+        persons: new Map(pedigree.persons),
+        edges: [...pedigree.edges],
+        merges: new Map(pedigree.merges),
+    };
+}
+
+/**
+ * Whether anyone is (after merges) their own ancestor
+ */
+export function hasCycle(pedigree: DynamicPedigree): boolean {
+    const parentOf = buildParentMap(pedigree);
+
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+
+    const visit = (id: string): boolean => {
+        if (done.has(id)) return false;
+        if (visiting.has(id)) return true;
+        visiting.add(id);
+        for (const parent of parentOf.get(id) || []) {
+            if (visit(parent)) return true;
+        }
+        visiting.delete(id);
+        done.add(id);
+        return false;
+    };
+
+    for (const id of parentOf.keys()) {
+        if (visit(id)) return true;
+    }
+    return false;
+}
+
+/**
+ * Persons (after merges) who descend from both of two persons
+ */
+function commonDescendants(pedigree: DynamicPedigree, id1: string, id2: string): Set<string> {
+    const childrenOf = new Map<string, string[]>();
+    for (const [child, parents] of buildParentMap(pedigree)) {
+        for (const parent of parents) {
+            if (!childrenOf.has(parent)) childrenOf.set(parent, []);
+            childrenOf.get(parent)!.push(child);
+        }
+    }
+
+    const descendants = (id: string): Set<string> => {
+        const found = new Set<string>();
+        const stack = [resolveId(id, pedigree.merges)];
+        while (stack.length > 0) {
+            for (const child of childrenOf.get(stack.pop()!) || []) {
+                if (!found.has(child)) {
+                    found.add(child);
+                    stack.push(child);
                 }
             }
         }
+        return found;
+    };
+
+    const descendants2 = descendants(id2);
+    return new Set(Array.from(descendants(id1)).filter(id => descendants2.has(id)));
+}
+
+/**
+ * Persons (after merges) whose parents are related
+ */
+function inbredPersons(pedigree: DynamicPedigree): Set<string> {
+    const parentOf = buildParentMap(pedigree);
+    const { inbreeding } = createKinshipCalculator(parentOf);
+    return new Set(Array.from(parentOf.keys()).filter(id => inbreeding(id) > 0));
+}
+
+/**
+ * Apply an edit for the candidate that keeps the pedigree acyclic and makes
+ * the fewest persons newly inbred, the earliest one on a tie, so a relationship
+ * only creates consanguinity when there is no other way to realize it
+ * (mutates the working pedigree). Descendants of both of the related `pair` do not count: relating the pair
+ * inbreeds them whatever the candidate. An edit that returns false does not
+ * work. Returns false if no candidate works.
+ */
+function applyBestCandidate<T>(
+    pedigree: DynamicPedigree,
+    pair: [string, string],
+    candidates: T[],
+    apply: (working: DynamicPedigree, candidate: T) => boolean | void
+): boolean {
+    const inbredBefore = inbredPersons(pedigree);
+    let best: { working: DynamicPedigree; newlyInbred: number } | null = null;
+
+    for (const candidate of candidates) {
+        const working = clonePedigree(pedigree);
+        if (apply(working, candidate) === false || hasCycle(working)) continue;
+
+        const inherent = commonDescendants(working, ...pair);
+        const newlyInbred = Array.from(inbredPersons(working))
+            .filter(id => !inbredBefore.has(id) && !inherent.has(id)).length;
+        if (!best || newlyInbred < best.newlyInbred) best = { working, newlyInbred };
+        if (newlyInbred === 0) break;
     }
-    
-    return validFullPaths;
+
+    if (!best) return false;
+    Object.assign(pedigree, best.working);
+    return true;
 }
 
 /**
- * Resolve an ID through the merge map
+ * Make `elderId` a direct ancestor of `youngerId`, `depth` generations up,
+ * by merging them into an ancestor slot of matching sex
  */
-function resolveId(id: string, merges: Map<string, string>): string {
-    let resolved = id;
-    while (merges.has(resolved)) {
-        resolved = merges.get(resolved)!;
+function makeAncestor(pedigree: DynamicPedigree, elderId: string, youngerId: string, depth: number): boolean {
+    const elder = resolveId(elderId, pedigree.merges);
+    const sex = pedigree.persons.get(elder)?.sex;
+
+    // Walk up through existing parents first, only creating the missing slots
+    // along the first line if nobody of the right sex is found
+    const lines = ancestorsAtDepth(pedigree, youngerId, depth - 1);
+    const slots: string[] = [];
+    for (const personId of lines) {
+        const parents = getParents(pedigree, personId);
+        const slot = sex === 'M' ? parents.father : parents.mother;
+        if (slot === elder) return true;
+        if (slot) slots.push(slot);
     }
-    return resolved;
+    if (slots.length === 0 && lines.length > 0) {
+        const parents = ensureParents(pedigree, lines[0]);
+        slots.push(sex === 'M' ? parents.father : parents.mother);
+    }
+
+    return applyBestCandidate(
+        pedigree,
+        [elder, youngerId],
+        slots,
+        (working, slotId) => mergePerson(working, elder, slotId)
+    );
 }
 
 /**
- * Add a relationship between two nodes and update the pedigree accordingly
+ * Shift generations so the topmost person sits at generation 0
  */
-export function addRelationship(
+function normalizeGenerations(pedigree: DynamicPedigree): void {
+    let minGeneration = Infinity;
+    for (const person of pedigree.persons.values()) {
+        minGeneration = Math.min(minGeneration, person.generation);
+    }
+    if (minGeneration === 0 || minGeneration === Infinity) return;
+
+    for (const [id, person] of pedigree.persons) {
+        pedigree.persons.set(id, {
+            ...person,
+            generation: person.generation - minGeneration,
+            // Manual rows move with the generations they snapped to
+            ...(person.y !== undefined && { y: person.y - minGeneration }),
+        });
+    }
+}
+
+/**
+ * Recompute every generation from the parent-child structure, e.g. after an import.
+ * People without children sit one row below their deepest parent; everyone
+ * else sits one row above their shallowest child, so spouses who married in
+ * (and their ancestors) line up with the family they joined.
+ */
+export function assignGenerations(pedigree: DynamicPedigree): DynamicPedigree {
+    const parentOf = buildParentMap(pedigree);
+    const depth = createDepthFunction(id => parentOf.get(id) || []);
+
+    const childrenOf = new Map<string, string[]>();
+    for (const [child, parents] of parentOf) {
+        for (const parent of parents) {
+            if (!childrenOf.has(parent)) childrenOf.set(parent, []);
+            childrenOf.get(parent)!.push(child);
+        }
+    }
+
+    // Deepest first, so every child is placed before its parents
+    const ids = Array.from(pedigree.persons.keys())
+        .filter(id => !pedigree.merges.has(id))
+        .sort((a, b) => depth(b) - depth(a));
+    const generations = new Map<string, number>();
+    for (const id of ids) {
+        const children = childrenOf.get(id);
+        generations.set(id, children
+            ? Math.min(...children.map(c => generations.get(c) ?? depth(c))) - 1
+            : depth(id));
+    }
+
+    const newPedigree = clonePedigree(pedigree);
+    for (const [id, person] of pedigree.persons) {
+        newPedigree.persons.set(id, { ...person, generation: generations.get(resolveId(id, pedigree.merges)) ?? 0 });
+    }
+    normalizeGenerations(newPedigree);
+    return newPedigree;
+}
+
+/**
+ * Generations between the pair for each relationship; the elder of a
+ * cross-generation pair takes the place of an ancestor of the younger one
+ */
+const GENERATION_GAP: Partial<Record<NodeRelationship['type'], number>> = {
+    'siblings': 0,
+    'half-siblings': 0,
+    'first-cousins': 0,
+    'second-cousins': 0,
+    'parent-child': 1,
+    'avuncular': 1,
+    'first-cousins-once-removed': 1,
+    'grandparent-grandchild': 2,
+};
+
+/**
+ * Apply the structural changes for a relationship.
+ * Returns null if the relationship does not fit the pair's generation gap,
+ * or cannot be realized without a cycle.
+ */
+function applyRelationship(
     pedigree: DynamicPedigree,
     person1Id: string,
     person2Id: string,
     relationshipType: NodeRelationship['type']
-): DynamicPedigree {
-    const newPedigree = { ...pedigree };
+): DynamicPedigree | null {
+    // Work on copies so the previous pedigree stays untouched
+    const newPedigree = clonePedigree(pedigree);
     newPedigree.definedRelationships = [
         ...pedigree.definedRelationships,
         { person1Id, person2Id, type: relationshipType }
     ];
 
-    // Handle merging of ancestors for sibling relationships
-    if (relationshipType === 'siblings') {
-        // If two people are siblings, they share both parents
-        // Merge their parent nodes
-        newPedigree.merges = new Map(pedigree.merges);
-
-        // Find parents of each person
-        const parents1 = pedigree.edges
-            .filter(e => e.childId === person1Id)
-            .map(e => e.parentId);
-        const parents2 = pedigree.edges
-            .filter(e => e.childId === person2Id)
-            .map(e => e.parentId);
-
-        // Merge parents by sex
-        const father1 = parents1.find(p => pedigree.persons.get(p)?.sex === 'M');
-        const father2 = parents2.find(p => pedigree.persons.get(p)?.sex === 'M');
-        const mother1 = parents1.find(p => pedigree.persons.get(p)?.sex === 'F');
-        const mother2 = parents2.find(p => pedigree.persons.get(p)?.sex === 'F');
-
-        if (father1 && father2 && father1 !== father2) {
-            newPedigree.merges.set(father2, father1);
-        }
-        if (mother1 && mother2 && mother1 !== mother2) {
-            newPedigree.merges.set(mother2, mother1);
-        }
+    // Cross-generation relationships are oriented from the elder person
+    const gen1 = pedigree.persons.get(person1Id)?.generation ?? 0;
+    const gen2 = pedigree.persons.get(person2Id)?.generation ?? 0;
+    const [elderId, youngerId] = gen1 <= gen2 ? [person1Id, person2Id] : [person2Id, person1Id];
+
+    const gap = GENERATION_GAP[relationshipType];
+    if (gap !== undefined && Math.abs(gen1 - gen2) !== gap) return null;
+
+    let realized = true;
+
+    switch (relationshipType) {
+        case 'siblings':
+            // Siblings share both parents
+            makeSiblings(newPedigree, person1Id, person2Id, false);
+            break;
+        case 'half-siblings':
+            // Share one parent (default to father)
+            makeSiblings(newPedigree, person1Id, person2Id, true);
+            break;
+        case 'first-cousins':
+            // A parent of each is a sibling: shared grandparent pair
+            realized = makeCousins(newPedigree, person1Id, person2Id, 1);
+            break;
+        case 'second-cousins':
+            // A grandparent of each is a sibling: shared great-grandparent pair
+            realized = makeCousins(newPedigree, person1Id, person2Id, 2);
+            break;
+        case 'parent-child':
+            realized = makeAncestor(newPedigree, elderId, youngerId, 1);
+            break;
+        case 'grandparent-grandchild':
+            realized = makeAncestor(newPedigree, elderId, youngerId, 2);
+            break;
+        case 'avuncular':
+            // The elder is a sibling of one of the younger person's parents
+            // (never of themselves, when they already are one of those parents)
+            realized = applyBestCandidate(
+                newPedigree,
+                [elderId, youngerId],
+                ancestorsAtDepth(newPedigree, youngerId, 1).filter(id => id !== resolveId(elderId, newPedigree.merges)),
+                (working, parentId) => makeSiblings(working, elderId, parentId, false)
+            );
+            break;
+        case 'first-cousins-once-removed':
+            // The elder is a first cousin of one of the younger person's parents
+            realized = applyBestCandidate(
+                newPedigree,
+                [elderId, youngerId],
+                ancestorsAtDepth(newPedigree, youngerId, 1),
+                (working, parentId) => makeCousins(working, elderId, parentId, 1)
+            );
+            break;
     }
 
-    if (relationshipType === 'half-siblings') {
-        // Share one parent (default to father)
-        newPedigree.merges = new Map(pedigree.merges);
+    if (!realized || hasCycle(newPedigree)) return null;
+
+    // Record what this relationship added, for removeDefinedRelationship
+    const previousEdges = new Set(pedigree.edges);
+    const changes: RelationshipChanges = {
+        merges: Array.from(newPedigree.merges.keys()).filter(id => !pedigree.merges.has(id)),
+        persons: Array.from(newPedigree.persons.keys()).filter(id => !pedigree.persons.has(id)),
+        edges: newPedigree.edges.filter(e => !previousEdges.has(e)),
+    };
+    const last = newPedigree.definedRelationships.length - 1;
+    newPedigree.definedRelationships[last] = { ...newPedigree.definedRelationships[last], changes };
+
+    normalizeGenerations(newPedigree);
+    return newPedigree;
+}
+
+/**
+ * Add a relationship between two nodes and update the pedigree accordingly.
+ * Returns the pedigree unchanged if the relationship does not fit the pair's
+ * generations or would make someone their own ancestor.
+ */
+export function addRelationship(
+    pedigree: DynamicPedigree,
+    person1Id: string,
+    person2Id: string,
+    relationshipType: NodeRelationship['type']
+): DynamicPedigree {
+    return applyRelationship(pedigree, person1Id, person2Id, relationshipType) ?? pedigree;
+}
+
+/**
+ * Take back the most recent defined relationship: undo its merges and drop the
+ * edges and persons it created. Created persons that other edits still rely on
+ * are kept.
+ */
+function undoLastRelationship(pedigree: DynamicPedigree): DynamicPedigree {
+    const relationship = pedigree.definedRelationships[pedigree.definedRelationships.length - 1];
+    if (!relationship) return pedigree;
+
+    const definedRelationships = pedigree.definedRelationships.slice(0, -1);
+    const changes = relationship.changes;
+    if (!changes) return { ...pedigree, definedRelationships };
 
-        const parents1 = pedigree.edges
-            .filter(e => e.childId === person1Id)
-            .map(e => e.parentId);
-        const parents2 = pedigree.edges
-            .filter(e => e.childId === person2Id)
-            .map(e => e.parentId);
+    const merges = new Map(pedigree.merges);
+    changes.merges.forEach(id => merges.delete(id));
 
-        const father1 = parents1.find(p => pedigree.persons.get(p)?.sex === 'M');
-        const father2 = parents2.find(p => pedigree.persons.get(p)?.sex === 'M');
+    const isAdded = (edge: ParentChildEdge) =>
+        changes.edges.some(e => e.parentId === edge.parentId && e.childId === edge.childId);
+    const edges = pedigree.edges.filter(e => !isAdded(e));
 
-        if (father1 && father2 && father1 !== father2) {
-            newPedigree.merges.set(father2, father1);
+    const stillUsed = new Set<string>([
+        ...pedigree.targetPair,
+        ...edges.flatMap(e => [e.parentId, e.childId]),
+        ...Array.from(merges.entries()).flat(),
+        ...definedRelationships.flatMap(rel => [rel.person1Id, rel.person2Id]),
+    ]);
+    const persons = new Map(pedigree.persons);
+    changes.persons.forEach(id => {
+        if (!stillUsed.has(id)) persons.delete(id);
+    });
+
+    const newPedigree = {
+        ...pedigree,
+        persons,
+        merges,
+        // Edges of removed persons can only be ones this relationship added
+        edges: edges.filter(e => persons.has(e.parentId) && persons.has(e.childId)),
+        definedRelationships,
+    };
+    normalizeGenerations(newPedigree);
+    return newPedigree;
+}
+
+/**
+ * Take back one defined relationship, leaving every other edit in place.
+ * Relationships declared after it may have been built on its merges, so they
+ * are taken back too and then declared again in order; any that can no longer
+ * be realized, or whose persons only existed through it, are dropped as well.
+ */
+export function removeDefinedRelationship(pedigree: DynamicPedigree, index: number): DynamicPedigree {
+    if (!pedigree.definedRelationships[index]) return pedigree;
+
+    let result = pedigree;
+    while (result.definedRelationships.length > index) {
+        result = undoLastRelationship(result);
+    }
+
+    for (const rel of pedigree.definedRelationships.slice(index + 1)) {
+        if (!rel.changes) {
+            // Recorded without its changes, so it was never undone either
+            result = { ...result, definedRelationships: [...result.definedRelationships, rel] };
+        } else if (result.persons.has(rel.person1Id) && result.persons.has(rel.person2Id)) {
+            result = applyRelationship(result, rel.person1Id, rel.person2Id, rel.type) ?? result;
         }
     }
+    return result;
+}
+
+/**
+ * Add a father or mother to a person who does not have one yet
+ */
+export function addParent(pedigree: DynamicPedigree, childId: string, sex: Sex): DynamicPedigree {
+    const child = resolveId(childId, pedigree.merges);
+    const parents = getParents(pedigree, child);
+    if ((sex === 'M' ? parents.father : parents.mother) || !pedigree.persons.has(child)) {
+        return pedigree;
+    }
+
+    const newPedigree = clonePedigree(pedigree);
+    createParent(newPedigree, child, sex);
+
+    normalizeGenerations(newPedigree);
+    return newPedigree;
+}
+
+/**
+ * Add a child to a person. Without a partner, a new partner of the opposite sex is created.
+ */
+export function addChild(
+    pedigree: DynamicPedigree,
+    parentId: string,
+    sex: Sex,
+    partnerId?: string
+): DynamicPedigree {
+    const parent = pedigree.persons.get(resolveId(parentId, pedigree.merges));
+    if (!parent) return pedigree;
+
+    const newPedigree = clonePedigree(pedigree);
+
+    let partner = partnerId ? newPedigree.persons.get(resolveId(partnerId, newPedigree.merges)) : undefined;
+    if (!partner) {
+        const id = nextPersonId(newPedigree, 'partner');
+        partner = {
+            id,
+            label: `Partner of ${parent.label}`,
+            sex: parent.sex === 'M' ? 'F' : 'M',
+            generation: parent.generation,
+        };
+        newPedigree.persons.set(id, partner);
+    }
+
+    const childId = nextPersonId(newPedigree, 'child');
+    newPedigree.persons.set(childId, {
+        id: childId,
+        label: `${sex === 'M' ? 'Son' : 'Daughter'} of ${parent.label}`,
+        sex,
+        generation: Math.max(parent.generation, partner.generation) + 1,
+    });
+    newPedigree.edges.push({ parentId: parent.id, childId });
+    newPedigree.edges.push({ parentId: partner.id, childId });
 
     return newPedigree;
 }
 
+/**
+ * Add a full sibling, creating the shared parents if they are missing
+ */
+export function addSibling(pedigree: DynamicPedigree, personId: string, sex: Sex): DynamicPedigree {
+    const person = pedigree.persons.get(resolveId(personId, pedigree.merges));
+    if (!person) return pedigree;
+
+    const newPedigree = clonePedigree(pedigree);
+    const { father, mother } = ensureParents(newPedigree, person.id);
+
+    const siblingId = nextPersonId(newPedigree, 'sibling');
+    newPedigree.persons.set(siblingId, {
+        id: siblingId,
+        label: `${sex === 'M' ? 'Brother' : 'Sister'} of ${person.label}`,
+        sex,
+        generation: person.generation,
+    });
+    newPedigree.edges.push({ parentId: father, childId: siblingId });
+    newPedigree.edges.push({ parentId: mother, childId: siblingId });
+
+    normalizeGenerations(newPedigree);
+    return newPedigree;
+}
+
+/**
+ * Remove a person (and every node merged into them) along with their edges
+ * and defined relationships. The target pair cannot be removed.
+ */
+export function removePerson(pedigree: DynamicPedigree, personId: string): DynamicPedigree {
+    const id = resolveId(personId, pedigree.merges);
+    const isTarget = pedigree.targetPair.some(t => resolveId(t, pedigree.merges) === id);
+    if (isTarget || !pedigree.persons.has(id)) return pedigree;
+
+    const removed = new Set(
+        Array.from(pedigree.persons.keys()).filter(p => resolveId(p, pedigree.merges) === id)
+    );
+
+    const persons = new Map(pedigree.persons);
+    removed.forEach(p => persons.delete(p));
+
+    const merges = new Map(pedigree.merges);
+    removed.forEach(p => merges.delete(p));
+
+    return {
+        ...pedigree,
+        persons,
+        merges,
+        edges: pedigree.edges.filter(e => !removed.has(e.parentId) && !removed.has(e.childId)),
+        definedRelationships: pedigree.definedRelationships.filter(
+            rel => !removed.has(rel.person1Id) && !removed.has(rel.person2Id)
+        ),
+    };
+}
+
+/**
+ * Re-assign (or clear, with null) the father or mother of a person.
+ * Returns the pedigree unchanged if the new parent would make someone their own ancestor.
+ */
+export function setParent(
+    pedigree: DynamicPedigree,
+    childId: string,
+    sex: Sex,
+    parentId: string | null
+): DynamicPedigree {
+    const child = resolveId(childId, pedigree.merges);
+    const parents = getParents(pedigree, child);
+    const current = sex === 'M' ? parents.father : parents.mother;
+    const next = parentId ? resolveId(parentId, pedigree.merges) : null;
+    if (current === next) return pedigree;
+
+    const newPedigree = clonePedigree(pedigree);
+    if (current) {
+        newPedigree.edges = newPedigree.edges.filter(e =>
+            resolveId(e.childId, pedigree.merges) !== child ||
+            resolveId(e.parentId, pedigree.merges) !== current
+        );
+    }
+    if (next) {
+        newPedigree.edges.push({ parentId: next, childId: child });
+    }
+
+    return hasCycle(newPedigree) ? pedigree : newPedigree;
+}
+
+/**
+ * Record the affected/carrier/unaffected status of a person
+ */
+export function setPersonStatus(pedigree: DynamicPedigree, personId: string, status: PhenotypeStatus): DynamicPedigree {
+    const id = resolveId(personId, pedigree.merges);
+    const person = pedigree.persons.get(id);
+    if (!person) return pedigree;
+
+    const persons = new Map(pedigree.persons);
+    persons.set(id, { ...person, status });
+    return { ...pedigree, persons };
+}
+
+/**
+ * Mark a person as deceased or living
+ */
+export function setPersonDeceased(pedigree: DynamicPedigree, personId: string, deceased: boolean): DynamicPedigree {
+    const id = resolveId(personId, pedigree.merges);
+    const person = pedigree.persons.get(id);
+    if (!person) return pedigree;
+
+    const persons = new Map(pedigree.persons);
+    persons.set(id, { ...person, deceased: deceased || undefined });
+    return { ...pedigree, persons };
+}
+
+/**
+ * Make a person the proband (or clear it with null); a pedigree has at most one
+ */
+export function setProband(pedigree: DynamicPedigree, personId: string | null): DynamicPedigree {
+    const id = personId === null ? null : resolveId(personId, pedigree.merges);
+    const persons = new Map(pedigree.persons);
+    for (const [key, person] of pedigree.persons) {
+        if (key === id) persons.set(key, { ...person, proband: true });
+        else if (person.proband) persons.set(key, { ...person, proband: undefined });
+    }
+    return { ...pedigree, persons };
+}
+
+function withoutPosition(person: Person): Person {
+    const copy = { ...person };
+    delete copy.x;
+    delete copy.y;
+    return copy;
+}
+
+/**
+ * Pin a person at a manual position (layout units), or return them to automatic placement with null
+ */
+export function setPersonPosition(
+    pedigree: DynamicPedigree,
+    personId: string,
+    position: { x: number; y: number } | null
+): DynamicPedigree {
+    const id = resolveId(personId, pedigree.merges);
+    const person = pedigree.persons.get(id);
+    if (!person) return pedigree;
+
+    const persons = new Map(pedigree.persons);
+    persons.set(id, position ? { ...person, x: position.x, y: position.y } : withoutPosition(person));
+    return { ...pedigree, persons };
+}
+
+/**
+ * Whether anyone has been placed manually
+ */
+export function hasManualPositions(pedigree: DynamicPedigree): boolean {
+    return Array.from(pedigree.persons.values()).some(p => p.x !== undefined || p.y !== undefined);
+}
+
+/**
+ * Discard every manual position, returning the drawing to the automatic layout
+ */
+export function clearManualPositions(pedigree: DynamicPedigree): DynamicPedigree {
+    const persons = new Map(pedigree.persons);
+    for (const [id, person] of pedigree.persons) {
+        if (person.x !== undefined || person.y !== undefined) persons.set(id, withoutPosition(person));
+    }
+    return { ...pedigree, persons };
+}
+
+/**
+ * Persons of the given sex who could become the father/mother of a person
+ */
+export function getParentCandidates(pedigree: DynamicPedigree, childId: string, sex: Sex): Person[] {
+    const child = resolveId(childId, pedigree.merges);
+    const current = getParents(pedigree, child)[sex === 'M' ? 'father' : 'mother'];
+
+    return Array.from(pedigree.persons.values()).filter(person =>
+        !pedigree.merges.has(person.id) &&
+        person.sex === sex &&
+        person.id !== child &&
+        (person.id === current || setParent(pedigree, child, sex, person.id) !== pedigree)
+    );
+}
+
 /**
  * Convert dynamic pedigree to FamilyGraph for visualization
  */
@@ -403,13 +1168,15 @@ export function pedigreeToGraph(pedigree: DynamicPedigree): FamilyGraph {
     }
 
     // Add edges with resolved IDs
+    const edgeKeys = new Set<string>();
     for (const edge of pedigree.edges) {
         const parentId = resolveId(edge.parentId, pedigree.merges);
         const childId = resolveId(edge.childId, pedigree.merges);
 
         // Avoid duplicate edges
-        const exists = edges.some(e => e.parentId === parentId && e.childId === childId);
-        if (!exists) {
+        const key = `${parentId}>${childId}`;
+        if (!edgeKeys.has(key)) {
+            edgeKeys.add(key);
             edges.push({ parentId, childId });
         }
     }
@@ -423,9 +1190,7 @@ export function pedigreeToGraph(pedigree: DynamicPedigree): FamilyGraph {
             consanguinityLinks.push({
                 person1Id: id1,
                 person2Id: id2,
-                relationship: rel.type === 'first-cousins' ? 'first-cousins' :
-                    rel.type === 'second-cousins' ? 'second-cousins' :
-                        rel.type === 'half-siblings' ? 'half-siblings' : 'siblings',
+                relationship: rel.type,
             });
         }
     }
@@ -434,7 +1199,9 @@ export function pedigreeToGraph(pedigree: DynamicPedigree): FamilyGraph {
 }
 
 /**
- * Get available relationship options for a selected pair
+ * Get available relationship options for a selected pair.
+ * Options that do not fit the pair's generation gap, or would create an
+ * impossible (cyclic) pedigree, are left out.
  */
 export function getRelationshipOptions(
     pedigree: DynamicPedigree,
@@ -446,19 +1213,26 @@ export function getRelationshipOptions(
 
     if (!p1 || !p2) return [];
 
-    // Same generation = potential siblings/cousins
-    if (p1.generation === p2.generation) {
-        return [
-            { value: 'unrelated', label: 'Unrelated' },
-            { value: 'siblings', label: 'Siblings (same parents)' },
-            { value: 'half-siblings', label: 'Half-Siblings (one shared parent)' },
-            { value: 'first-cousins', label: '1st Cousins' },
-            { value: 'second-cousins', label: '2nd Cousins' },
-        ];
-    }
-
-    // Different generation - could be parent-child, aunt/uncle
-    return [
-        { value: 'unrelated', label: 'Unrelated' },
+    const elder = p1.generation < p2.generation ? p1 : p2;
+    const options: { value: NodeRelationship['type']; label: string }[] = [
+        // Same generation
+        { value: 'siblings', label: 'Siblings (same parents)' },
+        { value: 'half-siblings', label: 'Half-Siblings (one shared parent)' },
+        { value: 'first-cousins', label: '1st Cousins' },
+        { value: 'second-cousins', label: '2nd Cousins' },
+        // One generation apart
+        { value: 'parent-child', label: `Parent-Child (${elder.label} is parent)` },
+        { value: 'avuncular', label: `Aunt/Uncle-Niece/Nephew (${elder.label} is aunt/uncle)` },
+        { value: 'first-cousins-once-removed', label: '1st Cousins Once Removed' },
+        // Two generations apart
+        { value: 'grandparent-grandchild', label: `Grandparent-Grandchild (${elder.label} is grandparent)` },
     ];
+
+    const gap = Math.abs(p1.generation - p2.generation);
+    const possible = options.filter(opt =>
+        GENERATION_GAP[opt.value] === gap &&
+        applyRelationship(pedigree, person1Id, person2Id, opt.value) !== null
+    );
+
+    return [{ value: 'unrelated', label: 'Unrelated' }, ...possible];
 }
@@ -0,0 +1,267 @@
+import type { Person, ParentChildEdge, Sex } from '../types';
+import {
+    assignGenerations,
+    buildParentMap,
+    resolveId,
+    type DynamicPedigree,
+    type PedigreeImportResult,
+} from './dynamic-pedigree';
+
+/**
+ * One GEDCOM line: `level [@xref@] TAG [value]`
+ */
+interface GedcomLine {
+    level: number;
+    xref?: string;
+    tag: string;
+    value: string;
+}
+
+/**
+ * A level-0 record with its subordinate lines
+ */
+interface GedcomRecord {
+    line: GedcomLine;
+    children: GedcomLine[];
+}
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?(\S+)(?:\s(.*))?$/;
+
+/** Level-0 records that carry no pedigree structure and are dropped silently */
+const IGNORED_RECORDS = new Set(['HEAD', 'TRLR', 'SUBM']);
+
+function parseLines(text: string, skipped: string[]): GedcomLine[] {
+    const lines: GedcomLine[] = [];
+    text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((raw, index) => {
+        if (raw.trim() === '') return;
+        const match = LINE_PATTERN.exec(raw);
+        if (!match) {
+            skipped.push(`Line ${index + 1}: not a GEDCOM line`);
+            return;
+        }
+        lines.push({
+            level: parseInt(match[1], 10),
+            xref: match[2]?.slice(1, -1),
+            tag: match[3].toUpperCase(),
+            value: (match[4] ?? '').trim(),
+        });
+    });
+    return lines;
+}
+
+function groupRecords(lines: GedcomLine[]): GedcomRecord[] {
+    const records: GedcomRecord[] = [];
+    for (const line of lines) {
+        if (line.level === 0) {
+            records.push({ line, children: [] });
+        } else if (records.length > 0) {
+            records[records.length - 1].children.push(line);
+        }
+    }
+    return records;
+}
+
+/** `@I1@` -> `I1` */
+function pointer(value: string): string | null {
+    const match = /^@([^@]+)@$/.exec(value.trim());
+    return match ? match[1] : null;
+}
+
+/** `John /Smith/` -> `John Smith` */
+function formatName(value: string): string {
+    return value.replace(/\//g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Import a GEDCOM 5.5.1 file. Individuals come from INDI records (NAME, SEX, DEAT)
+ * and parentage from FAM records (HUSB, WIFE, CHIL) together with the
+ * individuals' FAMC links; generations are computed from the resulting graph.
+ * The first two individuals become the target pair.
+ */
+export function parseGedcom(text: string): PedigreeImportResult {
+    const skipped: string[] = [];
+    const records = groupRecords(parseLines(text, skipped));
+
+    const persons = new Map<string, Person>();
+    const families = new Map<string, { husband?: string; wife?: string; children: string[] }>();
+    const familyOf = new Map<string, string[]>(); // FAMC links per individual
+    const unknownSex: string[] = [];
+    const skippedCounts = new Map<string, number>();
+
+    for (const { line, children } of records) {
+        if (line.tag === 'INDI' && line.xref) {
+            const name = children.find(c => c.level === 1 && c.tag === 'NAME');
+            const sex = children.find(c => c.level === 1 && c.tag === 'SEX')?.value.toUpperCase();
+            if (sex !== 'M' && sex !== 'F') unknownSex.push(line.xref);
+            persons.set(line.xref, {
+                id: line.xref,
+                label: (name && formatName(name.value)) || line.xref,
+                sex: sex === 'F' ? 'F' : 'M',
+                generation: 0,
+                deceased: children.some(c => c.level === 1 && c.tag === 'DEAT') || undefined,
+            });
+            familyOf.set(
+                line.xref,
+                children.filter(c => c.level === 1 && c.tag === 'FAMC').map(c => pointer(c.value)).filter((p): p is string => !!p)
+            );
+        } else if (line.tag === 'FAM' && line.xref) {
+            const family: { husband?: string; wife?: string; children: string[] } = { children: [] };
+            for (const child of children) {
+                if (child.level !== 1) continue;
+                const id = pointer(child.value);
+                if (!id) continue;
+                if (child.tag === 'HUSB') family.husband = id;
+                else if (child.tag === 'WIFE') family.wife = id;
+                else if (child.tag === 'CHIL') family.children.push(id);
+            }
+            families.set(line.xref, family);
+        } else if (!IGNORED_RECORDS.has(line.tag)) {
+            skippedCounts.set(line.tag, (skippedCounts.get(line.tag) ?? 0) + 1);
+        }
+    }
+
+    skippedCounts.forEach((count, tag) => {
+        skipped.push(`${count} ${tag} record${count > 1 ? 's' : ''} (not supported)`);
+    });
+
+    // Children listed by a family or pointing to it with FAMC
+    familyOf.forEach((familyIds, personId) => {
+        for (const familyId of familyIds) {
+            const family = families.get(familyId);
+            if (!family) {
+                skipped.push(`${personId}: FAMC points to missing family ${familyId}`);
+            } else if (!family.children.includes(personId)) {
+                family.children.push(personId);
+            }
+        }
+    });
+
+    const edges: ParentChildEdge[] = [];
+    const parentsOf = new Map<string, Set<string>>();
+    families.forEach((family, familyId) => {
+        for (const role of ['husband', 'wife'] as const) {
+            const parentId = family[role];
+            if (!parentId) continue;
+            const parent = persons.get(parentId);
+            if (!parent) {
+                skipped.push(`${familyId}: ${role === 'husband' ? 'HUSB' : 'WIFE'} points to missing individual ${parentId}`);
+                continue;
+            }
+            // A spouse role settles an unspecified sex
+            const roleSex: Sex = role === 'husband' ? 'M' : 'F';
+            if (unknownSex.includes(parentId)) {
+                persons.set(parentId, { ...parent, sex: roleSex });
+                unknownSex.splice(unknownSex.indexOf(parentId), 1);
+            }
+
+            for (const childId of family.children) {
+                if (!persons.has(childId)) {
+                    skipped.push(`${familyId}: CHIL points to missing individual ${childId}`);
+                    continue;
+                }
+                if (!parentsOf.has(childId)) parentsOf.set(childId, new Set());
+                const childParents = parentsOf.get(childId)!;
+                if (childParents.has(parentId)) continue;
+                if (childParents.size >= 2) {
+                    skipped.push(`${childId}: more than two parents, ${parentId} from ${familyId} ignored`);
+                    continue;
+                }
+                childParents.add(parentId);
+                edges.push({ parentId, childId });
+            }
+        }
+    });
+
+    for (const id of unknownSex) {
+        persons.set(id, { ...persons.get(id)!, sexUnknown: true });
+        skipped.push(`${id}: sex unknown, assumed male`);
+    }
+
+    if (persons.size < 2) {
+        skipped.push('The file contains fewer than two individuals');
+        return { pedigree: null, skipped };
+    }
+
+    const [first, second] = persons.keys();
+    const pedigree = assignGenerations({
+        persons,
+        edges,
+        definedRelationships: [],
+        targetPair: [first, second],
+        merges: new Map(),
+    });
+    return { pedigree, skipped };
+}
+
+/**
+ * Export the pedigree as GEDCOM 5.5.1. Merged persons are written once, under
+ * the person they were merged into; each distinct parent couple becomes a FAM,
+ * with two fathers or two mothers written as HUSB and WIFE in turn.
+ */
+export function pedigreeToGedcom(pedigree: DynamicPedigree): string {
+    const persons = Array.from(pedigree.persons.values()).filter(p => !pedigree.merges.has(p.id));
+    const xref = new Map(persons.map((p, i) => [p.id, `I${i + 1}`]));
+    const parentOf = buildParentMap(pedigree);
+
+    // One family per (father, mother) combination that has children
+    const families = new Map<string, { xref: string; husband?: string; wife?: string; children: string[] }>();
+    const childFamily = new Map<string, string>();
+    const spouseFamilies = new Map<string, string[]>();
+    for (const person of persons) {
+        const parents = (parentOf.get(person.id) || []).map(id => pedigree.persons.get(id)!).filter(Boolean);
+        if (parents.length === 0) continue;
+        // HUSB/WIFE follow sex where it tells the parents apart, and position
+        // otherwise, so same-sex parents are both written
+        const [first, second] = [...parents].sort(
+            (a, b) => Number(a.sex !== 'M') - Number(b.sex !== 'M') || a.id.localeCompare(b.id)
+        );
+        const husband = second || first.sex === 'M' ? first.id : undefined;
+        const wife = second ? second.id : husband ? undefined : first.id;
+        const key = `${husband ?? ''}|${wife ?? ''}`;
+        if (!families.has(key)) {
+            const family = { xref: `F${families.size + 1}`, husband, wife, children: [] as string[] };
+            families.set(key, family);
+            for (const spouse of [husband, wife]) {
+                if (!spouse) continue;
+                if (!spouseFamilies.has(spouse)) spouseFamilies.set(spouse, []);
+                spouseFamilies.get(spouse)!.push(family.xref);
+            }
+        }
+        families.get(key)!.children.push(person.id);
+        childFamily.set(person.id, families.get(key)!.xref);
+    }
+
+    const lines: string[] = [
+        '0 HEAD',
+        '1 SOUR GENE_OVERLAP_MODELER',
+        '2 NAME Gene Overlap Modeler',
+        '1 GEDC',
+        '2 VERS 5.5.1',
+        '2 FORM LINEAGE-LINKED',
+        '1 CHAR UTF-8',
+    ];
+
+    for (const person of persons) {
+        lines.push(`0 @${xref.get(person.id)}@ INDI`);
+        lines.push(`1 NAME ${person.label}`);
+        lines.push(`1 SEX ${person.sexUnknown ? 'U' : person.sex}`);
+        if (person.deceased) lines.push('1 DEAT Y');
+        const famc = childFamily.get(person.id);
+        if (famc) lines.push(`1 FAMC @${famc}@`);
+        for (const fams of spouseFamilies.get(person.id) || []) {
+            lines.push(`1 FAMS @${fams}@`);
+        }
+    }
+
+    for (const family of families.values()) {
+        lines.push(`0 @${family.xref}@ FAM`);
+        if (family.husband) lines.push(`1 HUSB @${xref.get(resolveId(family.husband, pedigree.merges))}@`);
+        if (family.wife) lines.push(`1 WIFE @${xref.get(resolveId(family.wife, pedigree.merges))}@`);
+        for (const child of family.children) {
+            lines.push(`1 CHIL @${xref.get(child)}@`);
+        }
+    }
+
+    lines.push('0 TRLR');
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,149 @@
+import { buildParentMap, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+import { createDepthFunction } from './kinship';
+import { createRng } from './random';
+
+export interface GeneDropOptions {
+    /** Number of simulated genomes */
+    replicates: number;
+    /**
+     * Independent (unlinked) loci per replicate. This is a per-locus
+     * approximation: real genomes are inherited in linked segments, so the
+     * spread of genome-wide sharing, and especially the chance of sharing
+     * nothing, differ from it (segment-simulation models the linkage).
+     */
+    loci: number;
+    seed: number;
+}
+
+export const DEFAULT_GENE_DROP_OPTIONS: GeneDropOptions = {
+    replicates: 2000,
+    loci: 100,
+    seed: 1,
+};
+
+export interface GeneDropResult {
+    /** Realized relatedness 2φ of the target pair, one value per replicate */
+    relatedness: number[];
+    /** Realized autozygosity of a hypothetical child of the pair, one value per replicate */
+    offspringInbreeding: number[];
+    meanRelatedness: number;
+    meanOffspringInbreeding: number;
+    /** Fraction of replicates in which the pair shares no IBD allele at any of the loci */
+    zeroSharing: number;
+    options: GeneDropOptions;
+}
+
+export interface Histogram {
+    /** Lower edge of each bin */
+    edges: number[];
+    binWidth: number;
+    /** Fraction of samples in each bin */
+    frequencies: number[];
+}
+
+/**
+ * Gene-dropping simulation: every founder receives two unique alleles per locus,
+ * which are passed down the pedigree by Mendelian sampling. Comparing the alleles
+ * the targets end up with gives the realized (not just expected) IBD sharing
+ * over a set of unlinked loci; the means are exact, the spread is approximate.
+ * A parent missing from the pedigree contributes a fresh founder allele.
+ */
+export function simulateGeneDrop(
+    pedigree: DynamicPedigree,
+    options: GeneDropOptions = DEFAULT_GENE_DROP_OPTIONS
+): GeneDropResult {
+    const { replicates, loci, seed } = options;
+    const random = createRng(seed);
+    const parentOf = buildParentMap(pedigree);
+    const parents = (id: string) => (parentOf.get(id) || []).slice(0, 2);
+    const depth = createDepthFunction(parents);
+
+    // Parents before children
+    const order = Array.from(pedigree.persons.keys())
+        .filter(id => !pedigree.merges.has(id))
+        .sort((a, b) => depth(a) - depth(b));
+    const index = new Map(order.map((id, i) => [id, i]));
+    const parentIndices = order.map(id => parents(id).map(p => index.get(p) ?? -1));
+
+    const id1 = index.get(resolveId(pedigree.targetPair[0], pedigree.merges));
+    const id2 = index.get(resolveId(pedigree.targetPair[1], pedigree.merges));
+
+    const relatedness: number[] = [];
+    const offspringInbreeding: number[] = [];
+    if (id1 === undefined || id2 === undefined) {
+        return summarize(relatedness, offspringInbreeding, options);
+    }
+
+    // genomes[person][locus * 2 + copy]
+    const genomes = order.map(() => new Int32Array(loci * 2));
+
+    for (let rep = 0; rep < replicates; rep++) {
+        let nextAllele = 0;
+        for (let i = 0; i < order.length; i++) {
+            const genome = genomes[i];
+            for (let copy = 0; copy < 2; copy++) {
+                const parent = parentIndices[i][copy] ?? -1;
+                // A parent later in the order can only occur in cyclic input; treat as unknown
+                const source = parent >= 0 && parent < i ? genomes[parent] : null;
+                for (let locus = 0; locus < loci; locus++) {
+                    genome[locus * 2 + copy] = source
+                        ? source[locus * 2 + (random() < 0.5 ? 0 : 1)]
+                        : nextAllele++;
+                }
+            }
+        }
+
+        const g1 = genomes[id1];
+        const g2 = genomes[id2];
+        let phiSum = 0;
+        let autozygous = 0;
+        for (let locus = 0; locus < loci; locus++) {
+            const a = locus * 2;
+            phiSum += ((g1[a] === g2[a] ? 1 : 0) + (g1[a] === g2[a + 1] ? 1 : 0) +
+                (g1[a + 1] === g2[a] ? 1 : 0) + (g1[a + 1] === g2[a + 1] ? 1 : 0)) / 4;
+            const gamete1 = g1[a + (random() < 0.5 ? 0 : 1)];
+            const gamete2 = g2[a + (random() < 0.5 ? 0 : 1)];
+            if (gamete1 === gamete2) autozygous++;
+        }
+        relatedness.push(Math.min(2 * phiSum / loci, 1));
+        offspringInbreeding.push(autozygous / loci);
+    }
+
+    return summarize(relatedness, offspringInbreeding, options);
+}
+
+function summarize(
+    relatedness: number[],
+    offspringInbreeding: number[],
+    options: GeneDropOptions
+): GeneDropResult {
+    const mean = (values: number[]) =>
+        values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    return {
+        relatedness,
+        offspringInbreeding,
+        meanRelatedness: mean(relatedness),
+        meanOffspringInbreeding: mean(offspringInbreeding),
+        zeroSharing: relatedness.length > 0
+            ? relatedness.filter(r => r === 0).length / relatedness.length
+            : 0,
+        options,
+    };
+}
+
+/**
+ * Bin samples into equal-width bins over [min, max]
+ */
+export function createHistogram(samples: number[], bins: number, min = 0, max = 1): Histogram {
+    const binWidth = (max - min) / bins;
+    const counts = new Array<number>(bins).fill(0);
+    for (const value of samples) {
+        const bin = Math.min(Math.floor((value - min) / binWidth), bins - 1);
+        if (bin >= 0) counts[bin]++;
+    }
+    return {
+        edges: counts.map((_, i) => min + i * binWidth),
+        binWidth,
+        frequencies: counts.map(c => (samples.length > 0 ? c / samples.length : 0)),
+    };
+}
@@ -0,0 +1,18 @@
+/**
+ * Approximate sex-averaged genetic lengths of the human autosomes in
+ * centiMorgans (chromosomes 1–22). Close to the maps consumer DNA tests use;
+ * the sex chromosomes are left out as they are not part of autosomal matching.
+ */
+export const AUTOSOME_LENGTHS_CM: readonly number[] = [
+    284, 269, 223, 214, 204, 192, 187, 168, 166, 181, 158,
+    175, 126, 119, 141, 134, 128, 117, 108, 108, 62, 74,
+];
+
+/** Total autosomal genetic length, haploid */
+export const GENOME_LENGTH_CM = AUTOSOME_LENGTHS_CM.reduce((a, b) => a + b, 0);
+
+/**
+ * Smallest segment consumer tests report as a match; shorter segments are
+ * mostly false positives or too old to attribute to a relationship
+ */
+export const DEFAULT_MIN_SEGMENT_CM = 7;
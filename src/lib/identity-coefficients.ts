@@ -0,0 +1,189 @@
+import type { IdentityCoefficients } from '../types';
+import { buildParentMap, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+import { createDepthFunction } from './kinship';
+
+/** Marks a gene inherited from an unknown (founder) parent, IBD with nothing else */
+const FOUNDER_GENE = ['\0founder-maternal', '\0founder-paternal'];
+
+/**
+ * `calculateIdentityCoefficients` gives up once the recursion would evaluate
+ * more than MAX_KINSHIP_STATES distinct sets of draws
+ */
+export type IdentityCoefficientsResult = IdentityCoefficients | 'too-complex';
+
+/**
+ * Distinct sets of draws the recursion may evaluate, about half a second of
+ * work; looped pedigrees many generations deep need far more
+ */
+const MAX_KINSHIP_STATES = 50_000;
+
+/**
+ * Generalized kinship coefficients: the probability that, within every group,
+ * genes drawn at random (with replacement) from the listed persons are all IBD.
+ * E.g. [[a, b]] is the ordinary kinship φ_ab, [[a, a], [b, b]] is φ_aa,bb.
+ *
+ * Recursion (Karigl 1981): expand the deepest person, sending each of their
+ * draws to the maternal or paternal gene with probability ½. Draws that land
+ * on the same gene become one draw from that parent, merging their groups.
+ * Past MAX_KINSHIP_STATES evaluated sets it returns NaN instead.
+ */
+function createGeneralizedKinship(parentsOf: Map<string, string[]>): (groups: string[][]) => number {
+    const cache = new Map<string, number>();
+    const parents = (id: string): string[] => (parentsOf.get(id) || []).slice(0, 2);
+    const depth = createDepthFunction(parents);
+
+    const probability = (input: string[][]): number => {
+        // A lone draw is trivially IBD with itself
+        const groups = input.filter(g => g.length > 1).map(g => [...g].sort());
+        if (groups.length === 0) return 1;
+
+        const key = groups.map(g => g.join(',')).sort().join('|');
+        const cached = cache.get(key);
+        if (cached !== undefined) return cached;
+        if (cache.size >= MAX_KINSHIP_STATES) return NaN;
+
+        // Deepest person: cannot be an ancestor of anyone else drawn from
+        let deepest = groups[0][0];
+        for (const id of groups.flat()) {
+            if (depth(id) > depth(deepest)) deepest = id;
+        }
+        const [mother, father] = parents(deepest);
+        const sideGene = [mother ?? FOUNDER_GENE[0], father ?? FOUNDER_GENE[1]];
+
+        // Positions of every draw from the deepest person
+        const draws: [number, number][] = [];
+        groups.forEach((g, gi) => g.forEach((id, pos) => {
+            if (id === deepest) draws.push([gi, pos]);
+        }));
+
+        let total = 0;
+        for (let assignment = 0; assignment < 1 << draws.length; assignment++) {
+            total += Math.pow(0.5, draws.length) * expand(groups, draws, assignment, deepest, sideGene);
+        }
+
+        cache.set(key, total);
+        return total;
+    };
+
+    // Probability for one assignment of the deepest person's draws to maternal (0) / paternal (1)
+    const expand = (
+        groups: string[][],
+        draws: [number, number][],
+        assignment: number,
+        deepest: string,
+        sideGene: string[]
+    ): number => {
+        const sidesPerGroup = groups.map(() => new Set<number>());
+        draws.forEach(([gi], d) => sidesPerGroup[gi].add((assignment >> d) & 1));
+
+        // Groups holding the same parental gene must all be IBD together
+        const merged: { members: string[]; sides: Set<number> }[] = [];
+        groups.forEach((g, gi) => {
+            const group = { members: g.filter(id => id !== deepest), sides: sidesPerGroup[gi] };
+            for (let m = merged.length - 1; m >= 0; m--) {
+                if ([...group.sides].some(side => merged[m].sides.has(side))) {
+                    group.members.push(...merged[m].members);
+                    merged[m].sides.forEach(side => group.sides.add(side));
+                    merged.splice(m, 1);
+                }
+            }
+            merged.push(group);
+        });
+
+        const next: string[][] = [];
+        for (const group of merged) {
+            const members = [...group.members, ...[...group.sides].map(side => sideGene[side])];
+            const hasFounderGene = members.some(id => FOUNDER_GENE.includes(id));
+            // A founder gene is IBD only with itself
+            if (hasFounderGene && members.length > 1) return 0;
+            if (!hasFounderGene) next.push(members);
+        }
+
+        return probability(next);
+    };
+
+    return probability;
+}
+
+/**
+ * Solve a small dense linear system by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    return a.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Coefficients of Δ1..Δ9 in each generalized kinship coefficient
+ * (Jacquard's condensed states, genes drawn with replacement)
+ */
+const IDENTITY_SYSTEM: number[][] = [
+    [1, 1, 1, 1, 1, 1, 1, 1, 1],                  // Σ Δ = 1
+    [1, 1, 1, 1, 0, 0, 0, 0, 0],                  // F_a
+    [1, 1, 0, 0, 1, 1, 0, 0, 0],                  // F_b
+    [1, 0, 1 / 2, 0, 1 / 2, 0, 1 / 2, 1 / 4, 0],  // φ_ab
+    [1, 0, 1 / 2, 0, 1 / 4, 0, 1 / 4, 1 / 8, 0],  // φ_aab
+    [1, 0, 1 / 4, 0, 1 / 2, 0, 1 / 4, 1 / 8, 0],  // φ_abb
+    [1, 0, 1 / 4, 0, 1 / 4, 0, 1 / 8, 1 / 16, 0], // φ_aabb
+    [1, 1, 1 / 2, 1 / 2, 1 / 2, 1 / 2, 1 / 4, 1 / 4, 1 / 4], // φ_aa,bb
+    [1, 0, 1 / 4, 0, 1 / 4, 0, 1 / 4, 1 / 16, 0], // φ_ab,ab
+];
+
+/**
+ * Jacquard's nine condensed identity coefficients for the target pair,
+ * with IBD sharing probabilities and r/F derived from them.
+ * Returns 'too-complex' when the pedigree is too interlinked to compute them.
+ */
+export function calculateIdentityCoefficients(
+    pedigree: Pick<DynamicPedigree, 'edges' | 'merges' | 'targetPair'>
+): IdentityCoefficientsResult {
+    const a = resolveId(pedigree.targetPair[0], pedigree.merges);
+    const b = resolveId(pedigree.targetPair[1], pedigree.merges);
+    const phi = createGeneralizedKinship(buildParentMap(pedigree));
+
+    const rhs = [
+        1,
+        2 * phi([[a, a]]) - 1,
+        2 * phi([[b, b]]) - 1,
+        phi([[a, b]]),
+        phi([[a, a, b]]),
+        phi([[a, b, b]]),
+        phi([[a, a, b, b]]),
+        phi([[a, a], [b, b]]),
+        phi([[a, b], [a, b]]),
+    ];
+    if (rhs.some(Number.isNaN)) return 'too-complex';
+
+    // Same person: the pair is always in state 1 (if inbred) or 7
+    const delta = a === b
+        ? [rhs[1], 0, 0, 0, 0, 0, 1 - rhs[1], 0, 0]
+        : solveLinearSystem(IDENTITY_SYSTEM, rhs).map(d => Math.max(0, d)); // Clamp rounding noise
+
+    const kinship = delta[0] + (delta[2] + delta[4] + delta[6]) / 2 + delta[7] / 4;
+
+    return {
+        delta,
+        k0: delta[8],
+        k1: delta[7],
+        k2: delta[6],
+        isInbred: delta.slice(0, 6).some(d => d > 1e-12),
+        coefficientOfRelationship: 2 * kinship,
+        inbreedingCoefficient: kinship,
+    };
+}
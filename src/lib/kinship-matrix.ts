@@ -0,0 +1,62 @@
+import type { Person } from '../types';
+import { buildParentMap, type DynamicPedigree } from './dynamic-pedigree';
+import { createKinshipCalculator } from './kinship';
+
+/**
+ * Pairwise kinship for every visible (non-merged) person in a pedigree
+ */
+export interface KinshipMatrix {
+    /** Persons in matrix order */
+    persons: Person[];
+    /** Kinship coefficient φ for each pair */
+    kinship: number[][];
+    /** Coefficient of relationship r = 2φ for each pair, capped at 1 like calculateFromPedigree */
+    relatedness: number[][];
+    /** Inbreeding coefficient F of each person */
+    inbreeding: number[];
+}
+
+/**
+ * Compute the full kinship/relatedness matrix and every individual's F
+ */
+export function calculateKinshipMatrix(pedigree: DynamicPedigree): KinshipMatrix {
+    const persons = Array.from(pedigree.persons.values()).filter(p => !pedigree.merges.has(p.id));
+    const calculator = createKinshipCalculator(buildParentMap(pedigree));
+
+    const kinship = persons.map(() => new Array<number>(persons.length).fill(0));
+    for (let i = 0; i < persons.length; i++) {
+        for (let j = i; j < persons.length; j++) {
+            const phi = calculator.kinship(persons[i].id, persons[j].id);
+            kinship[i][j] = phi;
+            kinship[j][i] = phi;
+        }
+    }
+
+    return {
+        persons,
+        kinship,
+        relatedness: kinship.map(row => row.map(phi => Math.min(2 * phi, 1))),
+        inbreeding: persons.map(p => calculator.inbreeding(p.id)),
+    };
+}
+
+/**
+ * Quote a CSV field if it contains separators or quotes
+ */
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format the relatedness matrix as CSV, with each person's F as the first data column
+ */
+export function kinshipMatrixToCsv(matrix: KinshipMatrix): string {
+    const header = ['Person', 'F', ...matrix.persons.map(p => p.label)];
+    const rows = matrix.persons.map((person, i) => [
+        person.label,
+        matrix.inbreeding[i].toString(),
+        ...matrix.relatedness[i].map(r => r.toString()),
+    ]);
+
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
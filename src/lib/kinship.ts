@@ -0,0 +1,147 @@
+import type { Sex } from '../types';
+
+/**
+ * Kinship engine based on the recursive (tabular) method:
+ *   φ(a, a) = ½(1 + F_a), with F_a = φ(father(a), mother(a))
+ *   φ(a, b) = ½[φ(mother(a), b) + φ(father(a), b)] when a is not an ancestor of b
+ * Every pair is computed once and memoized, so deep pedigrees with repeated
+ * loops stay polynomial instead of enumerating every ancestral path.
+ */
+export interface KinshipCalculator {
+    /** Kinship coefficient φ: probability that random alleles from each are IBD */
+    kinship(id1: string, id2: string): number;
+    /** Inbreeding coefficient F of an individual (kinship of its parents) */
+    inbreeding(id: string): number;
+}
+
+/**
+ * Longest distance from each person to a founder. A person can only be an
+ * ancestor of someone deeper, so recursing on the deeper of a pair is always safe.
+ */
+export function createDepthFunction(parents: (id: string) => string[]): (id: string) => number {
+    const depthCache = new Map<string, number>();
+
+    const depth = (id: string, visiting: Set<string> = new Set()): number => {
+        const cached = depthCache.get(id);
+        if (cached !== undefined) return cached;
+        if (visiting.has(id)) return 0; // Cyclic input: break the loop
+
+        visiting.add(id);
+        let d = 0;
+        for (const parent of parents(id)) {
+            d = Math.max(d, depth(parent, visiting) + 1);
+        }
+        visiting.delete(id);
+
+        depthCache.set(id, d);
+        return d;
+    };
+
+    return (id) => depth(id);
+}
+
+/**
+ * Create a memoized kinship calculator.
+ * `parentsOf` maps each person to their (already merge-resolved) parents;
+ * persons missing from the map, or with a single parent, have unknown founders.
+ */
+export function createKinshipCalculator(parentsOf: Map<string, string[]>): KinshipCalculator {
+    const kinshipCache = new Map<string, number>();
+    const inbreedingCache = new Map<string, number>();
+    const inProgress = new Set<string>();
+
+    const parents = (id: string): string[] => (parentsOf.get(id) || []).slice(0, 2);
+
+    const depth = createDepthFunction(parents);
+
+    const inbreeding = (id: string): number => {
+        const cached = inbreedingCache.get(id);
+        if (cached !== undefined) return cached;
+
+        const [p1, p2] = parents(id);
+        const F = p1 && p2 ? kinship(p1, p2) : 0;
+        inbreedingCache.set(id, F);
+        return F;
+    };
+
+    const kinship = (id1: string, id2: string): number => {
+        if (id1 === id2) return 0.5 * (1 + inbreeding(id1));
+
+        const key = id1 < id2 ? `${id1}|${id2}` : `${id2}|${id1}`;
+        const cached = kinshipCache.get(key);
+        if (cached !== undefined) return cached;
+        if (inProgress.has(key)) return 0; // Cyclic input: break the loop
+
+        // Expand the deeper individual through its parents
+        inProgress.add(key);
+        const [a, b] = depth(id1) >= depth(id2) ? [id1, id2] : [id2, id1];
+        let phi = 0;
+        for (const parent of parents(a)) {
+            phi += 0.5 * kinship(parent, b);
+        }
+        inProgress.delete(key);
+
+        kinshipCache.set(key, phi);
+        return phi;
+    };
+
+    return { kinship, inbreeding };
+}
+
+/**
+ * Create a memoized X-chromosome kinship calculator. Same recursion as the
+ * autosomal engine, with the X transmission rules:
+ *   males are hemizygous, so φ_X(m, m) = 1 and a male's X comes only from his mother;
+ *   females: φ_X(f, f) = ½(1 + F_X), and either parent may have transmitted.
+ * There is no male-to-male X transmission, so father-son paths contribute nothing.
+ */
+export function createXKinshipCalculator(
+    parentsOf: Map<string, string[]>,
+    sexOf: (id: string) => Sex | undefined
+): KinshipCalculator {
+    const kinshipCache = new Map<string, number>();
+    const inbreedingCache = new Map<string, number>();
+    const inProgress = new Set<string>();
+
+    const parents = (id: string): string[] => (parentsOf.get(id) || []).slice(0, 2);
+    const depth = createDepthFunction(parents);
+
+    // Parents who can have passed an X on to this person
+    const xParents = (id: string): string[] =>
+        sexOf(id) === 'M' ? parents(id).filter(p => sexOf(p) === 'F') : parents(id);
+
+    // Only defined for females; a male's single X cannot be autozygous
+    const inbreeding = (id: string): number => {
+        const cached = inbreedingCache.get(id);
+        if (cached !== undefined) return cached;
+
+        const [p1, p2] = parents(id);
+        const F = sexOf(id) === 'F' && p1 && p2 ? kinship(p1, p2) : 0;
+        inbreedingCache.set(id, F);
+        return F;
+    };
+
+    const kinship = (id1: string, id2: string): number => {
+        if (id1 === id2) return sexOf(id1) === 'M' ? 1 : 0.5 * (1 + inbreeding(id1));
+
+        const key = id1 < id2 ? `${id1}|${id2}` : `${id2}|${id1}`;
+        const cached = kinshipCache.get(key);
+        if (cached !== undefined) return cached;
+        if (inProgress.has(key)) return 0; // Cyclic input: break the loop
+
+        // Expand the deeper individual through the parents its X can come from
+        inProgress.add(key);
+        const [a, b] = depth(id1) >= depth(id2) ? [id1, id2] : [id2, id1];
+        const weight = sexOf(a) === 'M' ? 1 : 0.5;
+        let phi = 0;
+        for (const parent of xParents(a)) {
+            phi += weight * kinship(parent, b);
+        }
+        inProgress.delete(key);
+
+        kinshipCache.set(key, phi);
+        return phi;
+    };
+
+    return { kinship, inbreeding };
+}
@@ -0,0 +1,352 @@
+import type { FamilyGraph, Person } from '../types';
+import type { KinshipCalculator } from './kinship';
+import type { PedigreeLayout } from './pedigree-layout';
+import type { PedigreeDiagnostic } from './pedigree-validation';
+import type { LineageSharing } from './sex-linked';
+
+export const NODE_RADIUS = 28;
+export const GENERATION_HEIGHT = 110;
+export const NODE_SPACING = 90;
+/** Distance from the top of the drawing to the first generation row */
+export const TOP_MARGIN = 70;
+
+export interface NodePosition {
+    x: number;
+    y: number;
+}
+
+/**
+ * The part of the canvas 2D API the pedigree is drawn with; the SVG recorder
+ * in svg-context implements the same subset
+ */
+export type DrawingContext = Pick<
+    CanvasRenderingContext2D,
+    | 'beginPath' | 'moveTo' | 'lineTo' | 'arc' | 'rect' | 'closePath'
+    | 'fill' | 'stroke' | 'fillRect' | 'fillText' | 'save' | 'restore' | 'clip' | 'setLineDash'
+    | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'font' | 'textAlign' | 'textBaseline'
+    | 'shadowColor' | 'shadowBlur'
+>;
+
+/**
+ * Everything that decides what the drawing looks like
+ */
+export interface PedigreeScene {
+    graph: FamilyGraph;
+    layout: PedigreeLayout;
+    /** Pixel position of each visible person */
+    positions: Map<string, NodePosition>;
+    kinship: KinshipCalculator;
+    targetPair: string[];
+    selectedNodes: string[];
+    hoveredNode: string | null;
+    /** Y and mtDNA lineages of the target pair, drawn as coloured lines */
+    lineage?: LineageSharing;
+    diagnostics: PedigreeDiagnostic[];
+    hoveredDiagnostic: number | null;
+    /** Persons along an ancestral path, highlighted with the lines joining them */
+    highlightedPath?: string[];
+}
+
+/**
+ * Resolve a colour of the current theme from its CSS variable
+ */
+export function themeColor(cssVar: string): string {
+    return getComputedStyle(document.documentElement).getPropertyValue(cssVar).trim();
+}
+
+/**
+ * Pixel positions of a layout, with the leftmost person at originX
+ */
+export function layoutToPixels(layout: PedigreeLayout, originX: number): Map<string, NodePosition> {
+    const positions = new Map<string, NodePosition>();
+    layout.positions.forEach((point, id) => {
+        positions.set(id, {
+            x: originX + point.x * NODE_SPACING,
+            y: TOP_MARGIN + point.y * GENERATION_HEIGHT,
+        });
+    });
+    return positions;
+}
+
+/**
+ * Draw the pedigree in clinical notation. Colours are looked up by CSS
+ * variable name through `color`, so the same drawing can use the live theme
+ * (canvas) or a fixed palette (export).
+ */
+export function drawPedigree(ctx: DrawingContext, scene: PedigreeScene, color: (cssVar: string) => string): void {
+    const {
+        graph, layout, positions, kinship, targetPair, selectedNodes, hoveredNode, lineage, diagnostics, hoveredDiagnostic,
+        highlightedPath = [],
+    } = scene;
+
+    // Parent>child keys of edges along the Y and mtDNA lineages
+    const lineageEdges = (lines: string[][] = []) => new Set(
+        lines.flatMap(line => line.slice(1).map((parentId, i) => `${parentId}>${line[i]}`))
+    );
+    const paternalEdges = lineageEdges(lineage?.paternalLines);
+    const maternalEdges = lineageEdges(lineage?.maternalLines);
+    // A path climbs to its common ancestor and back down, so each step may be either way round
+    const pathNodes = new Set(highlightedPath);
+    const pathEdges = new Set(highlightedPath.slice(1).flatMap((id, i) => [
+        `${id}>${highlightedPath[i]}`,
+        `${highlightedPath[i]}>${id}`,
+    ]));
+
+    // Worst diagnostic severity per node; a hovered diagnostic outlines its nodes
+    const nodeSeverity = new Map<string, PedigreeDiagnostic['severity']>();
+    diagnostics.forEach(d => d.personIds.forEach(id => {
+        if (nodeSeverity.get(id) !== 'error') nodeSeverity.set(id, d.severity);
+    }));
+    const focusedNodes = new Set(hoveredDiagnostic !== null ? diagnostics[hoveredDiagnostic]?.personIds : []);
+
+    const strokePath = (points: NodePosition[]) => {
+        ctx.beginPath();
+        points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.stroke();
+    };
+    const traceSymbol = (person: Person, x: number, y: number) => {
+        ctx.beginPath();
+        if (person.sexUnknown) {
+            const r = NODE_RADIUS * 1.15;
+            ctx.moveTo(x, y - r);
+            ctx.lineTo(x + r, y);
+            ctx.lineTo(x, y + r);
+            ctx.lineTo(x - r, y);
+            ctx.closePath();
+        } else if (person.sex === 'M') {
+            const half = NODE_RADIUS * 0.9;
+            ctx.rect(x - half, y - half, half * 2, half * 2);
+        } else {
+            ctx.arc(x, y, NODE_RADIUS, 0, Math.PI * 2);
+        }
+    };
+
+    // Unions: partner line, line of descent, sibship bar and a line to each child
+    const unionRoutes = new Map<string, NodePosition[]>();
+    ctx.strokeStyle = color('--edge-muted');
+    ctx.lineWidth = 2;
+    layout.unions.forEach((union) => {
+        const parents = union.parentIds
+            .map(id => ({ id, pos: positions.get(id)! }))
+            .sort((a, b) => a.pos.x - b.pos.x);
+        const children = union.childIds.map(id => ({ id, pos: positions.get(id)! }));
+
+        // Descent starts between the partners, or below a single parent
+        const unionX = parents.reduce((sum, p) => sum + p.pos.x, 0) / parents.length;
+        const unionY = Math.max(...parents.map(p => p.pos.y));
+        const descentY = parents.length > 1 ? unionY : unionY + NODE_RADIUS;
+        const barY = Math.min(...children.map(c => c.pos.y)) - GENERATION_HEIGHT * 0.35;
+        const childXs = children.map(c => c.pos.x);
+
+        // Partner lines; a consanguineous mating is drawn as a double line
+        for (let i = 1; i < parents.length; i++) {
+            const a = parents[i - 1].pos;
+            const b = parents[i].pos;
+            const angle = Math.atan2(b.y - a.y, b.x - a.x);
+            const offsets = kinship.kinship(parents[i - 1].id, parents[i].id) > 0 ? [-3, 3] : [0];
+            offsets.forEach(offset => {
+                const dx = -Math.sin(angle) * offset;
+                const dy = Math.cos(angle) * offset;
+                strokePath([
+                    { x: a.x + NODE_RADIUS * Math.cos(angle) + dx, y: a.y + NODE_RADIUS * Math.sin(angle) + dy },
+                    { x: b.x - NODE_RADIUS * Math.cos(angle) + dx, y: b.y - NODE_RADIUS * Math.sin(angle) + dy },
+                ]);
+            });
+        }
+        strokePath([{ x: unionX, y: descentY }, { x: unionX, y: barY }]);
+        strokePath([
+            { x: Math.min(unionX, ...childXs), y: barY },
+            { x: Math.max(unionX, ...childXs), y: barY },
+        ]);
+        children.forEach(({ pos }) => strokePath([{ x: pos.x, y: barY }, { x: pos.x, y: pos.y - NODE_RADIUS }]));
+
+        // Route of each parent>child line, for highlighting along the drawing
+        parents.forEach(({ id: parentId, pos: parentPos }) => {
+            const start = parents.length > 1
+                ? [{ x: parentPos.x + Math.sign(unionX - parentPos.x) * NODE_RADIUS, y: parentPos.y }, { x: unionX, y: unionY }]
+                : [{ x: unionX, y: descentY }];
+            children.forEach(({ id: childId, pos: childPos }) => {
+                unionRoutes.set(`${parentId}>${childId}`, [
+                    ...start,
+                    { x: unionX, y: barY },
+                    { x: childPos.x, y: barY },
+                    { x: childPos.x, y: childPos.y - NODE_RADIUS },
+                ]);
+            });
+        });
+    });
+
+    // Y and mtDNA lineages follow the same routes
+    unionRoutes.forEach((route, key) => {
+        if (!paternalEdges.has(key) && !maternalEdges.has(key)) return;
+        ctx.strokeStyle = color(paternalEdges.has(key) ? '--node-male' : '--node-female');
+        ctx.lineWidth = 3;
+        strokePath(route);
+    });
+
+    // The highlighted ancestral path goes over the lineages
+    unionRoutes.forEach((route, key) => {
+        if (!pathEdges.has(key)) return;
+        ctx.strokeStyle = color('--success');
+        ctx.lineWidth = 4;
+        strokePath(route);
+    });
+
+    // Draw consanguinity/relationship links
+    graph.consanguinityLinks.forEach((link) => {
+        const pos1 = positions.get(link.person1Id);
+        const pos2 = positions.get(link.person2Id);
+        if (!pos1 || !pos2) return;
+
+        ctx.strokeStyle = color('--accent-primary');
+        ctx.lineWidth = 2;
+        ctx.setLineDash([5, 5]);
+        ctx.beginPath();
+        ctx.moveTo(pos1.x + NODE_RADIUS, pos1.y);
+        ctx.lineTo(pos2.x - NODE_RADIUS, pos2.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+    });
+
+    // Selection line between two selected nodes
+    if (selectedNodes.length === 2) {
+        const pos1 = positions.get(selectedNodes[0]);
+        const pos2 = positions.get(selectedNodes[1]);
+        if (pos1 && pos2) {
+            ctx.strokeStyle = color('--accent-secondary');
+            ctx.lineWidth = 3;
+            ctx.setLineDash([3, 3]);
+            ctx.beginPath();
+            ctx.moveTo(pos1.x, pos1.y);
+            ctx.lineTo(pos2.x, pos2.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+    }
+
+    // Draw nodes
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    graph.persons.forEach((person) => {
+        const pos = positions.get(person.id);
+        if (!pos) return;
+
+        const isTarget = targetPair.includes(person.id);
+        const isSelected = selectedNodes.includes(person.id);
+        const isHovered = hoveredNode === person.id;
+
+        // Glow effect
+        if (isSelected || isTarget) {
+            ctx.shadowColor = isSelected
+                ? color('--accent-secondary')
+                : color('--accent-glow');
+            ctx.shadowBlur = isSelected ? 25 : 15;
+        }
+
+        // Symbol: square (male), circle (female), diamond (sex unknown)
+        traceSymbol(person, pos.x, pos.y);
+        if (isSelected) {
+            ctx.fillStyle = color('--accent-secondary');
+        } else if (isTarget) {
+            ctx.fillStyle = color('--node-selected');
+        } else if (isHovered) {
+            ctx.fillStyle = color('--bg-hover');
+        } else {
+            ctx.fillStyle = color('--node-fill');
+        }
+        ctx.fill();
+        ctx.shadowBlur = 0;
+
+        // Affected: filled symbol; carrier: left half filled
+        if (person.status === 'affected' || person.status === 'carrier') {
+            ctx.save();
+            traceSymbol(person, pos.x, pos.y);
+            ctx.clip();
+            ctx.fillStyle = color('--text-primary');
+            const fillWidth = person.status === 'affected' ? NODE_RADIUS * 2 : NODE_RADIUS;
+            ctx.fillRect(pos.x - NODE_RADIUS * 1.2, pos.y - NODE_RADIUS * 1.2, fillWidth * 1.2, NODE_RADIUS * 2.4);
+            ctx.restore();
+        }
+
+        // Border: the highlight, otherwise the colour of the sex
+        traceSymbol(person, pos.x, pos.y);
+        ctx.strokeStyle = isSelected
+            ? color('--accent-secondary')
+            : isTarget
+                ? color('--accent-primary')
+                : person.sexUnknown
+                    ? color('--text-secondary')
+                    : color(person.sex === 'M' ? '--node-male' : '--node-female');
+        ctx.lineWidth = isSelected || isTarget ? 3 : 1.5;
+        ctx.stroke();
+
+        // On the highlighted ancestral path: ring around the symbol
+        if (pathNodes.has(person.id)) {
+            ctx.beginPath();
+            ctx.arc(pos.x, pos.y, NODE_RADIUS + 6, 0, Math.PI * 2);
+            ctx.strokeStyle = color('--success');
+            ctx.lineWidth = 3;
+            ctx.stroke();
+        }
+
+        // Deceased: slash through the symbol
+        if (person.deceased) {
+            const reach = NODE_RADIUS + 6;
+            ctx.strokeStyle = color('--text-primary');
+            ctx.lineWidth = 2;
+            strokePath([{ x: pos.x - reach, y: pos.y + reach }, { x: pos.x + reach, y: pos.y - reach }]);
+        }
+
+        // Proband: arrow pointing at the lower left of the symbol
+        if (person.proband) {
+            const tipX = pos.x - NODE_RADIUS * 0.8;
+            const tipY = pos.y + NODE_RADIUS * 0.8;
+            ctx.strokeStyle = color('--text-primary');
+            ctx.fillStyle = color('--text-primary');
+            ctx.lineWidth = 2;
+            strokePath([{ x: tipX - 20, y: tipY + 20 }, { x: tipX - 4, y: tipY + 4 }]);
+            ctx.beginPath();
+            ctx.moveTo(tipX, tipY);
+            ctx.lineTo(tipX - 10, tipY + 2);
+            ctx.lineTo(tipX - 2, tipY + 10);
+            ctx.closePath();
+            ctx.fill();
+            ctx.font = 'bold 11px Inter, sans-serif';
+            ctx.fillText('P', tipX - 26, tipY + 22);
+        }
+
+        // Diagnostic marker: warning triangle at the top left
+        const severity = nodeSeverity.get(person.id);
+        if (severity) {
+            const markColor = color(severity === 'error' ? '--error' : '--warning');
+            if (focusedNodes.has(person.id)) {
+                ctx.beginPath();
+                ctx.arc(pos.x, pos.y, NODE_RADIUS + 5, 0, Math.PI * 2);
+                ctx.strokeStyle = markColor;
+                ctx.lineWidth = 2;
+                ctx.setLineDash([4, 3]);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+            const markX = pos.x - NODE_RADIUS * 0.7;
+            const markY = pos.y - NODE_RADIUS * 0.7;
+            ctx.beginPath();
+            ctx.moveTo(markX, markY - 8);
+            ctx.lineTo(markX + 8, markY + 6);
+            ctx.lineTo(markX - 8, markY + 6);
+            ctx.closePath();
+            ctx.fillStyle = markColor;
+            ctx.fill();
+            ctx.fillStyle = color('--bg-primary');
+            ctx.font = 'bold 10px Inter, sans-serif';
+            ctx.fillText('!', markX, markY + 1);
+        }
+
+        // Label
+        ctx.fillStyle = isTarget
+            ? color('--accent-secondary')
+            : color('--text-secondary');
+        ctx.font = isTarget ? 'bold 11px Inter, sans-serif' : '11px Inter, sans-serif';
+        ctx.fillText(person.label, pos.x, pos.y + NODE_RADIUS + 16);
+    });
+}
@@ -0,0 +1,97 @@
+import {
+    drawPedigree,
+    layoutToPixels,
+    NODE_RADIUS,
+    TOP_MARGIN,
+    type DrawingContext,
+    type PedigreeScene,
+} from './pedigree-drawing';
+import { createSvgContext } from './svg-context';
+import { boundsOf } from './view-transform';
+
+export type ImageFormat = 'svg' | 'png';
+
+/** PNG sizes offered, as multiples of the on-screen size */
+export const PNG_SCALES = [1, 2, 3, 4];
+
+/** The scene without positions: the export places the layout itself */
+export type ExportScene = Omit<PedigreeScene, 'positions'>;
+
+const SIDE_MARGIN = 60;
+/** Room under the lowest row for labels and proband arrows */
+const BOTTOM_MARGIN = NODE_RADIUS + 40;
+const CAPTION_HEIGHT = 32;
+
+/**
+ * Size of the exported drawing and the positions within it
+ */
+function exportFrame(scene: ExportScene, caption?: string) {
+    const world = layoutToPixels(scene.layout, 0);
+    const bounds = boundsOf(world.values(), 0);
+    // Top row at TOP_MARGIN, leftmost person at SIDE_MARGIN
+    const positions = new Map(Array.from(world, ([id, pos]) => [id, {
+        x: pos.x - bounds.minX + SIDE_MARGIN,
+        y: pos.y - bounds.minY + TOP_MARGIN,
+    }]));
+    const drawingHeight = TOP_MARGIN + (bounds.maxY - bounds.minY) + BOTTOM_MARGIN;
+    return {
+        positions,
+        width: bounds.maxX - bounds.minX + SIDE_MARGIN * 2,
+        drawingHeight,
+        height: drawingHeight + (caption ? CAPTION_HEIGHT : 0),
+    };
+}
+
+function drawExport(
+    ctx: DrawingContext,
+    scene: ExportScene,
+    color: (cssVar: string) => string,
+    caption?: string
+): { width: number; height: number } {
+    const frame = exportFrame(scene, caption);
+
+    ctx.fillStyle = color('--bg-primary');
+    ctx.fillRect(0, 0, frame.width, frame.height);
+    drawPedigree(ctx, { ...scene, positions: frame.positions }, color);
+
+    if (caption) {
+        ctx.fillStyle = color('--text-primary');
+        ctx.font = '13px Inter, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(caption, frame.width / 2, frame.drawingHeight + CAPTION_HEIGHT / 2 - 8);
+    }
+
+    return frame;
+}
+
+/**
+ * The pedigree drawing as a standalone SVG document (colours resolved, no stylesheet needed)
+ */
+export function pedigreeToSvg(scene: ExportScene, color: (cssVar: string) => string, caption?: string): string {
+    const recorder = createSvgContext();
+    const { width, height } = drawExport(recorder.context, scene, color, caption);
+    return recorder.toSvg(width, height);
+}
+
+/**
+ * The pedigree drawing as a PNG, `scale` times the on-screen size
+ */
+export function pedigreeToPng(
+    scene: ExportScene,
+    color: (cssVar: string) => string,
+    scale: number,
+    caption?: string
+): Promise<Blob | null> {
+    const { width, height } = exportFrame(scene, caption);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+    ctx.scale(scale, scale);
+    drawExport(ctx, scene, color, caption);
+
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+}
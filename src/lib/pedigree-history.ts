@@ -0,0 +1,132 @@
+import type { RelationshipType } from '../types';
+import type { DynamicPedigree } from './dynamic-pedigree';
+
+/**
+ * One state in the undo history
+ */
+export interface HistoryEntry {
+    pedigree: DynamicPedigree;
+    baseRelationship: RelationshipType;
+    /** Short description of the edit that led to this state */
+    label: string;
+}
+
+/**
+ * Linear undo/redo history; entries after `index` are the redo stack
+ */
+export interface PedigreeHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+/** Oldest entries are dropped beyond this */
+const MAX_HISTORY = 100;
+
+export function createHistory(pedigree: DynamicPedigree, baseRelationship: RelationshipType, label: string): PedigreeHistory {
+    return { entries: [{ pedigree, baseRelationship, label }], index: 0 };
+}
+
+export function currentEntry(history: PedigreeHistory): HistoryEntry {
+    return history.entries[history.index];
+}
+
+/**
+ * Record a new state, discarding anything that had been undone
+ */
+export function pushHistory(
+    history: PedigreeHistory,
+    pedigree: DynamicPedigree,
+    label?: string,
+    baseRelationship?: RelationshipType
+): PedigreeHistory {
+    const current = currentEntry(history);
+    if (pedigree === current.pedigree && (baseRelationship ?? current.baseRelationship) === current.baseRelationship) {
+        return history;
+    }
+
+    const entry: HistoryEntry = {
+        pedigree,
+        baseRelationship: baseRelationship ?? current.baseRelationship,
+        label: label ?? describePedigreeChange(current.pedigree, pedigree),
+    };
+    const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-MAX_HISTORY);
+    return { entries, index: entries.length - 1 };
+}
+
+export function canUndo(history: PedigreeHistory): boolean {
+    return history.index > 0;
+}
+
+export function canRedo(history: PedigreeHistory): boolean {
+    return history.index < history.entries.length - 1;
+}
+
+/**
+ * Move to any entry; undo and redo are steps of one
+ */
+export function goToHistory(history: PedigreeHistory, index: number): PedigreeHistory {
+    if (index < 0 || index >= history.entries.length) return history;
+    return { ...history, index };
+}
+
+export function undo(history: PedigreeHistory): PedigreeHistory {
+    return goToHistory(history, history.index - 1);
+}
+
+export function redo(history: PedigreeHistory): PedigreeHistory {
+    return goToHistory(history, history.index + 1);
+}
+
+/**
+ * Describe what changed between two pedigree states, for the history list
+ */
+export function describePedigreeChange(previous: DynamicPedigree, next: DynamicPedigree): string {
+    const label = (pedigree: DynamicPedigree, id: string) => pedigree.persons.get(id)?.label ?? id;
+
+    if (next.definedRelationships.length > previous.definedRelationships.length) {
+        const rel = next.definedRelationships[next.definedRelationships.length - 1];
+        return `${label(next, rel.person1Id)} ↔ ${label(next, rel.person2Id)}: ${rel.type.replace(/-/g, ' ')}`;
+    }
+    if (next.definedRelationships.length < previous.definedRelationships.length) {
+        const removed = previous.definedRelationships.find(rel => !next.definedRelationships.includes(rel));
+        return removed
+            ? `Removed ${label(previous, removed.person1Id)} ↔ ${label(previous, removed.person2Id)}`
+            : 'Removed relationship';
+    }
+    if (next.targetPair[0] !== previous.targetPair[0] || next.targetPair[1] !== previous.targetPair[1]) {
+        return `Compared ${label(next, next.targetPair[0])} and ${label(next, next.targetPair[1])}`;
+    }
+
+    const added = Array.from(next.persons.keys()).filter(id => !previous.persons.has(id));
+    if (added.length > 0) {
+        return added.length === 1 ? `Added ${label(next, added[0])}` : `Added ${added.length} persons`;
+    }
+    const removed = Array.from(previous.persons.keys()).filter(id => !next.persons.has(id));
+    if (removed.length > 0) {
+        return removed.length === 1 ? `Removed ${label(previous, removed[0])}` : `Removed ${removed.length} persons`;
+    }
+
+    for (const [id, person] of next.persons) {
+        const before = previous.persons.get(id);
+        if (!before) continue;
+        if (before.sex !== person.sex) {
+            return `${person.label} set to ${person.sex === 'M' ? 'male' : 'female'}`;
+        }
+        if ((before.status ?? 'unknown') !== (person.status ?? 'unknown')) {
+            return `${person.label} marked ${person.status ?? 'unknown'}`;
+        }
+    }
+
+    if (next.edges !== previous.edges || next.merges !== previous.merges) {
+        return 'Changed parents';
+    }
+
+    const moved = Array.from(next.persons.values()).filter(person => {
+        const before = previous.persons.get(person.id);
+        return before && (before.x !== person.x || before.y !== person.y);
+    });
+    if (moved.length > 0) {
+        return moved.length === 1 && moved[0].x !== undefined ? `Moved ${moved[0].label}` : 'Reset layout';
+    }
+    return 'Edited pedigree';
+}
@@ -0,0 +1,317 @@
+import type { FamilyGraph } from '../types';
+
+/**
+ * A position in layout units: x in node slots, y in generation rows
+ */
+export interface LayoutPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * A mating (or single parent) and the sibship descending from it
+ */
+export interface LayoutUnion {
+    id: string;
+    parentIds: string[];
+    childIds: string[];
+}
+
+export interface PedigreeLayout {
+    /** The automatic placement starts at x = 0; manual positions (Person.x/y) can lie anywhere */
+    positions: Map<string, LayoutPoint>;
+    unions: LayoutUnion[];
+}
+
+/** Horizontal gap between partners and between siblings */
+const SIBLING_GAP = 1;
+/** Horizontal gap between unrelated neighbours, so families read as groups */
+const FAMILY_GAP = 1.5;
+const ORDERING_SWEEPS = 12;
+const PLACEMENT_ROUNDS = 8;
+/** Weight of a manual position against the automatic targets when resolving overlaps */
+const PIN_WEIGHT = 1e6;
+
+type Direction = 'down' | 'up';
+
+/**
+ * Order the members of a partner component so each couple is adjacent:
+ * a chain (someone with two partners in the middle) is walked end to end
+ */
+function orderBlock(component: string[], partners: Map<string, Set<string>>): string[] {
+    const members = new Set(component);
+    const degree = (id: string) => Array.from(partners.get(id) || []).filter(p => members.has(p)).length;
+    if (component.length < 3 || component.some(id => degree(id) > 2)) return component;
+
+    const start = component.find(id => degree(id) <= 1);
+    if (!start) return component;
+    const chain = [start];
+    while (chain.length < component.length) {
+        const next = Array.from(partners.get(chain[chain.length - 1]) || [])
+            .find(p => members.has(p) && !chain.includes(p));
+        if (!next) return component;
+        chain.push(next);
+    }
+    return chain;
+}
+
+/**
+ * Minimize Σ w_i(x_i - target_i)² subject to x_{i+1} - x_i ≥ gap_i
+ * (weighted isotonic regression by pool-adjacent-violators on the gap-shifted targets)
+ */
+function placeRow(targets: number[], gaps: number[], weights?: number[]): number[] {
+    const offsets = [0];
+    for (let i = 1; i < targets.length; i++) offsets.push(offsets[i - 1] + gaps[i - 1]);
+
+    const pools: { sum: number; weight: number; count: number }[] = [];
+    targets.forEach((target, i) => {
+        const weight = weights?.[i] ?? 1;
+        pools.push({ sum: (target - offsets[i]) * weight, weight, count: 1 });
+        while (pools.length > 1) {
+            const last = pools[pools.length - 1];
+            const previous = pools[pools.length - 2];
+            if (previous.sum / previous.weight <= last.sum / last.weight) break;
+            previous.sum += last.sum;
+            previous.weight += last.weight;
+            previous.count += last.count;
+            pools.pop();
+        }
+    });
+
+    const placed: number[] = [];
+    for (const pool of pools) {
+        for (let k = 0; k < pool.count; k++) {
+            placed.push(pool.sum / pool.weight + offsets[placed.length]);
+        }
+    }
+    return placed;
+}
+
+/**
+ * Lay out a pedigree drawing: one row per generation, partners side by side,
+ * each sibship centred under its parents, and the order within rows chosen by
+ * barycentric sweeps to minimize crossing lines. Individuals who close a loop
+ * (both partners descending from people already drawn) settle between the two
+ * branches they join; ties keep the previous order, so small edits do not
+ * reshuffle the drawing. Persons with a manual position (Person.x/y) stay there.
+ */
+export function layoutPedigree(graph: FamilyGraph): PedigreeLayout {
+    const ids = Array.from(graph.persons.keys());
+    const generation = (id: string) => graph.persons.get(id)!.generation;
+
+    const parentsOf = new Map<string, string[]>(ids.map(id => [id, []]));
+    const childrenOf = new Map<string, string[]>(ids.map(id => [id, []]));
+    for (const edge of graph.edges) {
+        if (!graph.persons.has(edge.parentId) || !graph.persons.has(edge.childId)) continue;
+        parentsOf.get(edge.childId)!.push(edge.parentId);
+        childrenOf.get(edge.parentId)!.push(edge.childId);
+    }
+
+    // Unions: children grouped by their set of parents
+    const unionMap = new Map<string, LayoutUnion>();
+    const sibshipOf = new Map<string, string>();
+    for (const id of ids) {
+        const parents = parentsOf.get(id)!;
+        if (parents.length === 0) continue;
+        const key = [...parents].sort().join('+');
+        if (!unionMap.has(key)) {
+            unionMap.set(key, { id: key, parentIds: parents, childIds: [] });
+        }
+        unionMap.get(key)!.childIds.push(id);
+        sibshipOf.set(id, key);
+    }
+    const unions = Array.from(unionMap.values());
+
+    // Partners drawn on the same row
+    const partners = new Map<string, Set<string>>();
+    for (const union of unions) {
+        for (const a of union.parentIds) {
+            for (const b of union.parentIds) {
+                if (a === b || generation(a) !== generation(b)) continue;
+                if (!partners.has(a)) partners.set(a, new Set());
+                partners.get(a)!.add(b);
+            }
+        }
+    }
+
+    // Rows of blocks (partner components), in insertion order to start with
+    const rowMap = new Map<number, string[]>();
+    for (const id of ids) {
+        const gen = generation(id);
+        if (!rowMap.has(gen)) rowMap.set(gen, []);
+        rowMap.get(gen)!.push(id);
+    }
+    const generations = Array.from(rowMap.keys()).sort((a, b) => a - b);
+    let rows = new Map<number, string[][]>();
+    for (const gen of generations) {
+        const seen = new Set<string>();
+        const blocks: string[][] = [];
+        for (const id of rowMap.get(gen)!) {
+            if (seen.has(id)) continue;
+            const component: string[] = [];
+            const stack = [id];
+            seen.add(id);
+            while (stack.length > 0) {
+                const current = stack.pop()!;
+                component.push(current);
+                for (const partner of partners.get(current) || []) {
+                    if (!seen.has(partner)) {
+                        seen.add(partner);
+                        stack.push(partner);
+                    }
+                }
+            }
+            blocks.push(orderBlock(component, partners));
+        }
+        rows.set(gen, blocks);
+    }
+
+    // Person ranks count crossings; block ranks drive the barycenters, so a
+    // couple counts as one unit and its orientation is settled separately
+    const rank = new Map<string, number>();
+    const blockRank = new Map<string, number>();
+    const updateRanks = (gen: number) => {
+        rows.get(gen)!.flat().forEach((id, index) => rank.set(id, index));
+        rows.get(gen)!.forEach((block, index) => block.forEach(id => blockRank.set(id, index)));
+    };
+    generations.forEach(updateRanks);
+
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const neighbours = (id: string, direction: Direction) =>
+        direction === 'down' ? parentsOf.get(id)! : childrenOf.get(id)!;
+
+    // Crossings between parent-child lines that join the same two rows
+    const countCrossings = (): number => {
+        const groups = new Map<string, [number, number][]>();
+        for (const [childId, parents] of parentsOf) {
+            for (const parentId of parents) {
+                const key = `${generation(parentId)}>${generation(childId)}`;
+                if (!groups.has(key)) groups.set(key, []);
+                groups.get(key)!.push([rank.get(parentId)!, rank.get(childId)!]);
+            }
+        }
+        let crossings = 0;
+        for (const lines of groups.values()) {
+            for (let i = 0; i < lines.length; i++) {
+                for (let j = i + 1; j < lines.length; j++) {
+                    if ((lines[i][0] - lines[j][0]) * (lines[i][1] - lines[j][1]) < 0) crossings++;
+                }
+            }
+        }
+        return crossings;
+    };
+
+    let best = new Map(rows);
+    let bestCrossings = countCrossings();
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+        const direction: Direction = sweep % 2 === 0 ? 'down' : 'up';
+        const sweepOrder = direction === 'down' ? generations : [...generations].reverse();
+        rows = new Map(rows);
+
+        for (const gen of sweepOrder) {
+            const barycenter = (id: string): number | null => {
+                const ranks = neighbours(id, direction).map(n => blockRank.get(n)!);
+                return ranks.length > 0 ? mean(ranks) : null;
+            };
+            const keyed = rows.get(gen)!.map(block => {
+                let members = block;
+                if (block.length > 1) {
+                    const first = barycenter(block[0]);
+                    const last = barycenter(block[block.length - 1]);
+                    if (first !== null && last !== null && first > last) members = [...block].reverse();
+                }
+                const known = members.map(barycenter).filter((b): b is number => b !== null);
+                const key = known.length > 0 ? mean(known) : blockRank.get(members[0])!;
+                return { members, key };
+            });
+            // Array.prototype.sort is stable, so ties keep their current order
+            keyed.sort((a, b) => a.key - b.key);
+            rows.set(gen, keyed.map(k => k.members));
+            updateRanks(gen);
+        }
+
+        const crossings = countCrossings();
+        if (crossings < bestCrossings) {
+            best = new Map(rows);
+            bestCrossings = crossings;
+        }
+    }
+    rows = best;
+    generations.forEach(updateRanks);
+
+    // Coordinates: start packed, then alternately centre children under their
+    // parents and parents over their children, moving whole blocks together
+    const x = new Map<string, number>();
+    const rowGaps = new Map<number, number[]>();
+    const gapsOf = (order: string[]) => order.slice(1).map((id, i) => {
+        const previous = order[i];
+        const related = partners.get(previous)?.has(id)
+            || (sibshipOf.has(id) && sibshipOf.get(id) === sibshipOf.get(previous));
+        return related ? SIBLING_GAP : FAMILY_GAP;
+    });
+    for (const gen of generations) {
+        const order = rows.get(gen)!.flat();
+        const gaps = gapsOf(order);
+        rowGaps.set(gen, gaps);
+        let position = 0;
+        order.forEach((id, i) => {
+            if (i > 0) position += gaps[i - 1];
+            x.set(id, position);
+        });
+    }
+
+    for (let round = 0; round < PLACEMENT_ROUNDS; round++) {
+        const direction: Direction = round % 2 === 0 ? 'down' : 'up';
+        const sweepOrder = direction === 'down' ? generations : [...generations].reverse();
+
+        for (const gen of sweepOrder) {
+            const targets: number[] = [];
+            for (const block of rows.get(gen)!) {
+                const shifts = block
+                    .filter(id => neighbours(id, direction).length > 0)
+                    .map(id => mean(neighbours(id, direction).map(n => x.get(n)!)) - x.get(id)!);
+                const shift = shifts.length > 0 ? mean(shifts) : 0;
+                block.forEach(id => targets.push(x.get(id)! + shift));
+            }
+            const order = rows.get(gen)!.flat();
+            placeRow(targets, rowGaps.get(gen)!).forEach((position, i) => x.set(order[i], position));
+        }
+    }
+
+    // The automatic placement starts at x = 0; manual positions share that
+    // frame, and the automatic neighbours are pushed aside where they collide
+    const minX = ids.length > 0 ? Math.min(...x.values()) : 0;
+    for (const id of ids) x.set(id, x.get(id)! - minX);
+
+    const row = new Map(ids.map(id => [id, generation(id)]));
+    const pinned = new Set(ids.filter(id => {
+        const person = graph.persons.get(id)!;
+        return person.x !== undefined && person.y !== undefined;
+    }));
+    if (pinned.size > 0) {
+        for (const id of pinned) {
+            x.set(id, graph.persons.get(id)!.x!);
+            row.set(id, graph.persons.get(id)!.y!);
+        }
+
+        const finalRows = new Map<number, string[]>();
+        for (const id of ids) {
+            if (!finalRows.has(row.get(id)!)) finalRows.set(row.get(id)!, []);
+            finalRows.get(row.get(id)!)!.push(id);
+        }
+        for (const members of finalRows.values()) {
+            const order = members.sort((a, b) => x.get(a)! - x.get(b)!);
+            const weights = order.map(id => (pinned.has(id) ? PIN_WEIGHT : 1));
+            placeRow(order.map(id => x.get(id)!), gapsOf(order), weights)
+                .forEach((position, i) => x.set(order[i], position));
+        }
+    }
+
+    const positions = new Map<string, LayoutPoint>();
+    for (const id of ids) {
+        positions.set(id, { x: x.get(id)!, y: row.get(id)! });
+    }
+
+    return { positions, unions };
+}
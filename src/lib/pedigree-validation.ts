@@ -0,0 +1,178 @@
+import type { Person } from '../types';
+import { buildParentMap, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+
+export type DiagnosticKind =
+    | 'cycle'
+    | 'too-many-parents'
+    | 'same-sex-parents'
+    | 'generation'
+    | 'orphaned-merge';
+
+/**
+ * A problem found in the pedigree, with the persons it concerns
+ */
+export interface PedigreeDiagnostic {
+    kind: DiagnosticKind;
+    /** Errors make the pedigree biologically impossible; warnings are suspicious */
+    severity: 'error' | 'warning';
+    message: string;
+    /** Visible (merge-resolved) persons to flag in the graph */
+    personIds: string[];
+}
+
+/**
+ * Strongly connected components of the parent graph with more than one
+ * member (or a self-loop): each one is a group of people who are their own ancestors
+ */
+function findAncestryLoops(ids: string[], parentOf: Map<string, string[]>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const loops: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string) => {
+        index.set(id, counter);
+        lowLink.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+
+        for (const parent of parentOf.get(id) || []) {
+            if (!index.has(parent)) {
+                visit(parent);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(parent)!));
+            } else if (onStack.has(parent)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(parent)!));
+            }
+        }
+
+        if (lowLink.get(id) === index.get(id)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== id);
+            if (component.length > 1 || (parentOf.get(id) || []).includes(id)) {
+                loops.push(component);
+            }
+        }
+    };
+
+    ids.forEach(id => {
+        if (!index.has(id)) visit(id);
+    });
+    return loops;
+}
+
+/**
+ * Check the pedigree for impossible or suspicious structure: ancestry loops,
+ * more than two parents, two parents of the same sex, parents drawn at or
+ * below their children, merges across generations and broken merges.
+ */
+export function validatePedigree(pedigree: DynamicPedigree): PedigreeDiagnostic[] {
+    const diagnostics: PedigreeDiagnostic[] = [];
+    const { persons, merges } = pedigree;
+    const person = (id: string): Person | undefined => persons.get(id);
+    const name = (id: string) => person(id)?.label ?? id;
+    const list = (ids: string[]) => ids.map(name).join(', ');
+
+    // Broken merges first: everything below resolves through them
+    const reported = new Set<string>();
+    for (const [dropId, keepId] of merges) {
+        if (!persons.has(dropId) || !persons.has(keepId)) {
+            diagnostics.push({
+                kind: 'orphaned-merge',
+                severity: 'warning',
+                message: `A merge refers to a person who no longer exists (${persons.has(dropId) ? keepId : dropId}). Remove the relationship that created it.`,
+                personIds: [dropId, keepId].filter(id => persons.has(id)).map(id => resolveId(id, merges)),
+            });
+            continue;
+        }
+        // Follow the chain; revisiting an ID means the merges loop
+        const chain = [dropId];
+        let current = keepId;
+        while (merges.has(current) && !chain.includes(current)) {
+            chain.push(current);
+            current = merges.get(current)!;
+        }
+        if (chain.includes(current) && !chain.some(id => reported.has(id))) {
+            chain.forEach(id => reported.add(id));
+            diagnostics.push({
+                kind: 'orphaned-merge',
+                severity: 'error',
+                message: `${list(chain)} are merged into each other in a loop. Undo the last relationship.`,
+                personIds: chain,
+            });
+        }
+    }
+
+    const visible = Array.from(persons.keys()).filter(id => !merges.has(id));
+    const parentOf = buildParentMap(pedigree);
+
+    for (const loop of findAncestryLoops(visible, parentOf)) {
+        diagnostics.push({
+            kind: 'cycle',
+            severity: 'error',
+            message: loop.length === 1
+                ? `${name(loop[0])} is their own parent. Re-assign their parents.`
+                : `${list(loop)} are their own ancestors. Undo the relationship that joined them or re-assign a parent.`,
+            personIds: loop,
+        });
+    }
+
+    for (const [childId, parents] of parentOf) {
+        if (parents.length > 2) {
+            diagnostics.push({
+                kind: 'too-many-parents',
+                severity: 'error',
+                message: `${name(childId)} has ${parents.length} parents (${list(parents)}). Keep one father and one mother via the right-click menu.`,
+                personIds: [childId, ...parents],
+            });
+            continue;
+        }
+        if (parents.length === 2) {
+            const [a, b] = parents.map(person);
+            if (a && b && a.sex === b.sex) {
+                diagnostics.push({
+                    kind: 'same-sex-parents',
+                    severity: 'error',
+                    message: `${name(childId)} has two ${a.sex === 'M' ? 'fathers' : 'mothers'} (${a.label} and ${b.label}). Change one parent's sex (Shift+click) or re-assign a parent.`,
+                    personIds: [childId, a.id, b.id],
+                });
+            }
+        }
+
+        const child = person(childId);
+        for (const parentId of parents) {
+            const parent = person(parentId);
+            if (child && parent && parent.generation >= child.generation) {
+                diagnostics.push({
+                    kind: 'generation',
+                    severity: 'warning',
+                    message: `${parent.label} (generation ${parent.generation + 1}) is not above their child ${child.label} (generation ${child.generation + 1}). Check the relationships linking them.`,
+                    personIds: [parentId, childId],
+                });
+            }
+        }
+    }
+
+    // A merge joins two placeholders for one person; they should share a generation
+    for (const [dropId, keepId] of merges) {
+        const dropped = person(dropId);
+        const kept = person(resolveId(keepId, merges));
+        if (dropped && kept && !reported.has(dropId) && dropped.generation !== kept.generation) {
+            diagnostics.push({
+                kind: 'generation',
+                severity: 'warning',
+                message: `${dropped.label} (generation ${dropped.generation + 1}) was merged into ${kept.label} (generation ${kept.generation + 1}); the relationship that merged them spans generations.`,
+                personIds: [kept.id],
+            });
+        }
+    }
+
+    return diagnostics;
+}
@@ -0,0 +1,191 @@
+import type { Person, ParentChildEdge, PhenotypeStatus, Sex } from '../types';
+import {
+    assignGenerations,
+    buildParentMap,
+    getParents,
+    type DynamicPedigree,
+    type PedigreeImportResult,
+} from './dynamic-pedigree';
+import { createKinshipCalculator } from './kinship';
+
+/**
+ * PLINK `.fam` (exactly six columns) or LINKAGE `.ped` (six columns followed by genotypes).
+ * Both start with: family ID, individual ID, father, mother, sex, phenotype.
+ */
+export type PedFormat = 'fam' | 'ped';
+
+/** Family ID written for pedigrees built in the app */
+const DEFAULT_FAMILY_ID = 'FAM1';
+
+/** Parent column value meaning "not in the file" */
+const MISSING_PARENT = '0';
+
+/** Missing phenotype code: PLINK uses -9, LINKAGE uses 0 */
+const MISSING_PHENOTYPE: Record<PedFormat, string> = { fam: '-9', ped: '0' };
+
+function parseSex(code: string): Sex | null {
+    if (code === '1') return 'M';
+    if (code === '2') return 'F';
+    return null;
+}
+
+/** 1 = unaffected, 2 = affected; anything else is missing or quantitative */
+function parsePhenotype(code: string): PhenotypeStatus {
+    if (code === '1') return 'unaffected';
+    if (code === '2') return 'affected';
+    return 'unknown';
+}
+
+function phenotypeCode(status: PhenotypeStatus | undefined, format: PedFormat): string {
+    if (status === 'affected') return '2';
+    // Carriers are phenotypically unaffected
+    if (status === 'unaffected' || status === 'carrier') return '1';
+    return MISSING_PHENOTYPE[format];
+}
+
+/**
+ * Import a PLINK `.fam` or LINKAGE `.ped` file. Genotype columns are ignored.
+ * Individual IDs only need to be unique within a family; they are prefixed
+ * with the family ID when the same ID occurs in several families.
+ * The first two individuals become the target pair.
+ */
+export function parsePedFile(text: string): PedigreeImportResult {
+    const skipped: string[] = [];
+    const rows: { line: number; fields: string[] }[] = [];
+
+    text.split(/\r\n|\r|\n/).forEach((raw, index) => {
+        const trimmed = raw.trim();
+        if (trimmed === '' || trimmed.startsWith('#')) return;
+        const fields = trimmed.split(/\s+/);
+        if (fields.length < 6) {
+            skipped.push(`Line ${index + 1}: expected at least 6 columns, found ${fields.length}`);
+            return;
+        }
+        rows.push({ line: index + 1, fields });
+    });
+
+    if (rows.some(r => r.fields.length > 6)) {
+        skipped.push('Columns after the sixth (genotypes, extra fields) are not imported');
+    }
+
+    // Disambiguate individual IDs reused across families
+    const familiesOfId = new Map<string, Set<string>>();
+    for (const { fields: [familyId, individualId] } of rows) {
+        if (!familiesOfId.has(individualId)) familiesOfId.set(individualId, new Set());
+        familiesOfId.get(individualId)!.add(familyId);
+    }
+    const personId = (familyId: string, individualId: string) =>
+        familiesOfId.get(individualId)!.size > 1 ? `${familyId}:${individualId}` : individualId;
+
+    const persons = new Map<string, Person>();
+    const unknownSex = new Set<string>();
+    for (const { line, fields: [familyId, individualId, , , sexCode, phenotype] } of rows) {
+        const id = personId(familyId, individualId);
+        if (persons.has(id)) {
+            skipped.push(`Line ${line}: duplicate individual ${individualId} in family ${familyId}`);
+            continue;
+        }
+        const sex = parseSex(sexCode);
+        if (!sex) unknownSex.add(id);
+        const status = parsePhenotype(phenotype);
+        if (status === 'unknown' && phenotype !== '0' && phenotype !== '-9') {
+            skipped.push(`${individualId}: quantitative phenotype ${phenotype} not kept`);
+        }
+        persons.set(id, { id, label: individualId, sex: sex ?? 'M', generation: 0, status, familyId });
+    }
+
+    const edges: ParentChildEdge[] = [];
+    for (const { fields: [familyId, individualId, fatherId, motherId] } of rows) {
+        const id = personId(familyId, individualId);
+        const person = persons.get(id);
+        if (!person || person.familyId !== familyId) continue;
+
+        const resolveParent = (parentId: string, sex: Sex): string | undefined => {
+            if (parentId === MISSING_PARENT) return undefined;
+            const parent = familiesOfId.get(parentId)?.has(familyId)
+                ? persons.get(personId(familyId, parentId))
+                : undefined;
+            if (!parent) {
+                skipped.push(`${individualId}: ${sex === 'M' ? 'father' : 'mother'} ${parentId} is not in family ${familyId}`);
+                return undefined;
+            }
+            if (unknownSex.has(parent.id)) {
+                // The column settles an unspecified sex
+                persons.set(parent.id, { ...parent, sex });
+                unknownSex.delete(parent.id);
+            } else if (parent.sex !== sex) {
+                skipped.push(`${individualId}: ${sex === 'M' ? 'father' : 'mother'} ${parentId} has the wrong sex`);
+                return undefined;
+            }
+            edges.push({ parentId: parent.id, childId: id });
+            return parent.id;
+        };
+
+        persons.set(id, {
+            ...persons.get(id)!,
+            fatherId: resolveParent(fatherId, 'M'),
+            motherId: resolveParent(motherId, 'F'),
+        });
+    }
+
+    for (const id of unknownSex) {
+        persons.set(id, { ...persons.get(id)!, sexUnknown: true });
+        skipped.push(`${persons.get(id)!.label}: sex unknown, assumed male`);
+    }
+
+    if (persons.size < 2) {
+        skipped.push('The file contains fewer than two individuals');
+        return { pedigree: null, skipped };
+    }
+
+    const [first, second] = persons.keys();
+    const pedigree = assignGenerations({
+        persons,
+        edges,
+        definedRelationships: [],
+        targetPair: [first, second],
+        merges: new Map(),
+    });
+    return { pedigree, skipped };
+}
+
+/**
+ * Write the pedigree as a PLINK `.fam` or LINKAGE `.ped` file (merged persons
+ * written once). With `includeInbreeding`, each `.ped` line gets a seventh
+ * column holding the individual's inbreeding coefficient F; `.fam` always
+ * keeps its six columns, as PLINK (and parsePedFile) expect.
+ */
+export function pedigreeToPedFile(
+    pedigree: DynamicPedigree,
+    format: PedFormat,
+    includeInbreeding = false
+): string {
+    const persons = Array.from(pedigree.persons.values()).filter(p => !pedigree.merges.has(p.id));
+    const calculator = createKinshipCalculator(buildParentMap(pedigree));
+
+    // Strip the family prefix added on import
+    const individualId = (person: Person) =>
+        person.familyId && person.id.startsWith(`${person.familyId}:`)
+            ? person.id.slice(person.familyId.length + 1)
+            : person.id;
+    const columnId = (id: string | undefined) => {
+        const person = id ? pedigree.persons.get(id) : undefined;
+        return person ? individualId(person) : MISSING_PARENT;
+    };
+
+    const lines = persons.map(person => {
+        const { father, mother } = getParents(pedigree, person.id);
+        const columns = [
+            person.familyId ?? DEFAULT_FAMILY_ID,
+            individualId(person),
+            columnId(father),
+            columnId(mother),
+            person.sexUnknown ? '0' : person.sex === 'M' ? '1' : '2',
+            phenotypeCode(person.status, format),
+        ];
+        if (includeInbreeding && format === 'ped') columns.push(calculator.inbreeding(person.id).toFixed(6));
+        return columns.join(format === 'fam' ? '\t' : ' ');
+    });
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,250 @@
+import type { ParentChildEdge, Person, PhenotypeStatus, RelationshipType } from '../types';
+import type { DynamicPedigree, NodeRelationship } from './dynamic-pedigree';
+
+/** Identifies our project files among other JSON */
+export const PROJECT_FORMAT = 'gene-overlap-modeler-project';
+
+/** Schema version written by this build */
+export const PROJECT_VERSION = 1;
+
+/**
+ * Everything needed to restore a session
+ */
+export interface Project {
+    pedigree: DynamicPedigree;
+    baseRelationship: RelationshipType;
+}
+
+/**
+ * On-disk shape of a version 1 project: the pedigree's Maps stored as arrays
+ */
+interface ProjectFileV1 {
+    format: typeof PROJECT_FORMAT;
+    version: 1;
+    baseRelationship: RelationshipType;
+    pedigree: {
+        persons: Person[];
+        edges: ParentChildEdge[];
+        definedRelationships: NodeRelationship[];
+        /** [mergedId, keptId] pairs */
+        merges: [string, string][];
+        targetPair: [string, string];
+    };
+}
+
+export interface ProjectLoadResult {
+    /** The loaded project, or null if the file is invalid */
+    project: Project | null;
+    /** Validation errors, each naming the offending field */
+    errors: string[];
+}
+
+const RELATIONSHIP_TYPES: RelationshipType[] = [
+    'siblings', 'half-siblings', 'first-cousins', 'second-cousins', 'third-cousins',
+    'double-first-cousins', 'first-cousins-once-removed', 'avuncular',
+    'grandparent-grandchild', 'great-grandparent', 'parent-child',
+];
+
+const NODE_RELATIONSHIP_TYPES: NodeRelationship['type'][] = [
+    'siblings', 'half-siblings', 'spouse', 'first-cousins', 'second-cousins', 'parent-child',
+    'avuncular', 'grandparent-grandchild', 'first-cousins-once-removed', 'unrelated',
+];
+
+const PHENOTYPE_STATUSES: PhenotypeStatus[] = ['affected', 'carrier', 'unaffected', 'unknown'];
+
+/**
+ * Upgrades from each older version to the next one (`MIGRATIONS[n]` turns a
+ * version n file into version n + 1). Add an entry whenever PROJECT_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+/**
+ * Serialize a project to JSON, converting Maps to arrays.
+ * `compact` drops the indentation, e.g. for embedding in a URL.
+ */
+export function serializeProject(project: Project, compact = false): string {
+    const { pedigree } = project;
+    const file: ProjectFileV1 = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        baseRelationship: project.baseRelationship,
+        pedigree: {
+            persons: Array.from(pedigree.persons.values()),
+            edges: pedigree.edges,
+            definedRelationships: pedigree.definedRelationships,
+            merges: Array.from(pedigree.merges.entries()),
+            targetPair: pedigree.targetPair,
+        },
+    };
+    return JSON.stringify(file, null, compact ? undefined : 2);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the shape of a current-version file, collecting every problem found
+ */
+function validateProject(data: Record<string, unknown>, errors: string[]): data is Record<string, unknown> & ProjectFileV1 {
+    const expect = (condition: boolean, message: string) => {
+        if (!condition) errors.push(message);
+        return condition;
+    };
+    const isString = (value: unknown): value is string => typeof value === 'string';
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+    expect(RELATIONSHIP_TYPES.includes(data.baseRelationship as RelationshipType),
+        `baseRelationship: unknown relationship ${JSON.stringify(data.baseRelationship)}`);
+
+    const pedigree = data.pedigree;
+    if (!isObject(pedigree)) {
+        errors.push('pedigree: missing or not an object');
+        return false;
+    }
+
+    const ids = new Set<string>();
+    if (expect(Array.isArray(pedigree.persons), 'pedigree.persons: expected an array')) {
+        (pedigree.persons as unknown[]).forEach((person, i) => {
+            const path = `pedigree.persons[${i}]`;
+            if (!isObject(person)) {
+                errors.push(`${path}: expected an object`);
+                return;
+            }
+            if (expect(isString(person.id), `${path}.id: expected a string`)) {
+                expect(!ids.has(person.id as string), `${path}.id: duplicate id "${person.id}"`);
+                ids.add(person.id as string);
+            }
+            expect(isString(person.label), `${path}.label: expected a string`);
+            expect(person.sex === 'M' || person.sex === 'F', `${path}.sex: expected "M" or "F"`);
+            expect(isNumber(person.generation), `${path}.generation: expected a number`);
+            for (const key of ['x', 'y', 'inbreedingCoefficient'] as const) {
+                expect(person[key] === undefined || isNumber(person[key]), `${path}.${key}: expected a number`);
+            }
+            for (const key of ['motherId', 'fatherId', 'familyId'] as const) {
+                expect(person[key] === undefined || isString(person[key]), `${path}.${key}: expected a string`);
+            }
+            for (const key of ['sexUnknown', 'deceased', 'proband'] as const) {
+                expect(person[key] === undefined || typeof person[key] === 'boolean', `${path}.${key}: expected a boolean`);
+            }
+            expect(person.status === undefined || PHENOTYPE_STATUSES.includes(person.status as PhenotypeStatus),
+                `${path}.status: expected one of ${PHENOTYPE_STATUSES.join(', ')}`);
+        });
+    }
+
+    const expectPerson = (id: unknown, path: string) =>
+        expect(isString(id) && ids.has(id), `${path}: unknown person ${JSON.stringify(id)}`);
+
+    if (expect(Array.isArray(pedigree.edges), 'pedigree.edges: expected an array')) {
+        (pedigree.edges as unknown[]).forEach((edge, i) => {
+            const path = `pedigree.edges[${i}]`;
+            if (!isObject(edge)) {
+                errors.push(`${path}: expected an object`);
+                return;
+            }
+            expectPerson(edge.parentId, `${path}.parentId`);
+            expectPerson(edge.childId, `${path}.childId`);
+        });
+    }
+
+    if (expect(Array.isArray(pedigree.definedRelationships), 'pedigree.definedRelationships: expected an array')) {
+        (pedigree.definedRelationships as unknown[]).forEach((rel, i) => {
+            const path = `pedigree.definedRelationships[${i}]`;
+            if (!isObject(rel)) {
+                errors.push(`${path}: expected an object`);
+                return;
+            }
+            expectPerson(rel.person1Id, `${path}.person1Id`);
+            expectPerson(rel.person2Id, `${path}.person2Id`);
+            expect(NODE_RELATIONSHIP_TYPES.includes(rel.type as NodeRelationship['type']),
+                `${path}.type: unknown relationship ${JSON.stringify(rel.type)}`);
+            if (rel.changes === undefined) return;
+            const changes = rel.changes;
+            if (!isObject(changes) || !Array.isArray(changes.merges) || !Array.isArray(changes.persons) || !Array.isArray(changes.edges)) {
+                errors.push(`${path}.changes: expected merges, persons and edges arrays`);
+                return;
+            }
+            expect([...changes.merges, ...changes.persons].every(isString), `${path}.changes: expected person ids`);
+            expect(changes.edges.every(e => isObject(e) && isString(e.parentId) && isString(e.childId)),
+                `${path}.changes.edges: expected parentId/childId pairs`);
+        });
+    }
+
+    if (expect(Array.isArray(pedigree.merges), 'pedigree.merges: expected an array of [mergedId, keptId] pairs')) {
+        (pedigree.merges as unknown[]).forEach((merge, i) => {
+            const path = `pedigree.merges[${i}]`;
+            if (!expect(Array.isArray(merge) && merge.length === 2, `${path}: expected a [mergedId, keptId] pair`)) return;
+            expectPerson((merge as unknown[])[0], `${path}[0]`);
+            expectPerson((merge as unknown[])[1], `${path}[1]`);
+        });
+    }
+
+    const targetPair = pedigree.targetPair;
+    if (expect(Array.isArray(targetPair) && targetPair.length === 2, 'pedigree.targetPair: expected two person ids')) {
+        expectPerson((targetPair as unknown[])[0], 'pedigree.targetPair[0]');
+        expectPerson((targetPair as unknown[])[1], 'pedigree.targetPair[1]');
+        expect((targetPair as unknown[])[0] !== (targetPair as unknown[])[1], 'pedigree.targetPair: the two ids must differ');
+    }
+
+    return errors.length === 0;
+}
+
+/**
+ * Parse a project file, migrating older versions and validating the result
+ */
+export function deserializeProject(text: string): ProjectLoadResult {
+    const errors: string[] = [];
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { project: null, errors: [`Not valid JSON: ${(error as Error).message}`] };
+    }
+
+    if (!isObject(data) || data.format !== PROJECT_FORMAT) {
+        return { project: null, errors: ['Not a project file (missing "format" marker)'] };
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+        return { project: null, errors: [`version: expected a positive integer, found ${JSON.stringify(data.version)}`] };
+    }
+    if (data.version > PROJECT_VERSION) {
+        return {
+            project: null,
+            errors: [`The file was saved by a newer version (format version ${data.version}, this build reads up to ${PROJECT_VERSION})`],
+        };
+    }
+
+    let migrated: Record<string, unknown> = data;
+    for (let version = data.version; version < PROJECT_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            return { project: null, errors: [`No migration from format version ${version}`] };
+        }
+        migrated = { ...migrate(migrated), version: version + 1 };
+    }
+
+    if (!validateProject(migrated, errors)) {
+        return { project: null, errors };
+    }
+
+    const { pedigree, baseRelationship } = migrated;
+    return {
+        project: {
+            baseRelationship,
+            pedigree: {
+                persons: new Map(pedigree.persons.map(p => [p.id, p])),
+                edges: pedigree.edges.map(({ parentId, childId }) => ({ parentId, childId })),
+                definedRelationships: pedigree.definedRelationships.map(({ person1Id, person2Id, type, changes }) => ({
+                    person1Id,
+                    person2Id,
+                    type,
+                    ...(changes && { changes }),
+                })),
+                merges: new Map(pedigree.merges),
+                targetPair: [pedigree.targetPair[0], pedigree.targetPair[1]],
+            },
+        },
+        errors,
+    };
+}
@@ -0,0 +1,22 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * Returns a function yielding uniform floats in [0, 1); the same seed always
+ * reproduces the same sequence, so simulations can be re-run exactly.
+ */
+export function createRng(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A fresh random seed for when the user asks for a new run
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,83 @@
+import { buildParentMap, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+import { createKinshipCalculator } from './kinship';
+
+/**
+ * A named recessive condition with an approximate population allele frequency
+ */
+export interface ConditionPreset {
+    id: string;
+    label: string;
+    /** Frequency q of the disease allele */
+    alleleFrequency: number;
+}
+
+/**
+ * Approximate allele frequencies for common autosomal-recessive conditions
+ * (population-specific; use a local figure when counselling)
+ */
+export const CONDITION_PRESETS: ConditionPreset[] = [
+    { id: 'cystic-fibrosis', label: 'Cystic fibrosis (European)', alleleFrequency: 0.02 },
+    { id: 'sickle-cell', label: 'Sickle cell disease (African)', alleleFrequency: 0.04 },
+    { id: 'tay-sachs', label: 'Tay-Sachs (Ashkenazi Jewish)', alleleFrequency: 0.017 },
+    { id: 'sma', label: 'Spinal muscular atrophy', alleleFrequency: 0.01 },
+    { id: 'pku', label: 'Phenylketonuria (European)', alleleFrequency: 0.01 },
+    { id: 'rare', label: 'Rare recessive (q = 0.001)', alleleFrequency: 0.001 },
+];
+
+export interface RecessiveRisk {
+    /** Probability a child of the pair is affected: q² + F·p·q */
+    affectedRisk: number;
+    /** Risk for a child of an unrelated couple: q² */
+    baselineRisk: number;
+    /** affectedRisk - baselineRisk, i.e. F·p·q */
+    excessRisk: number;
+    /** affectedRisk / baselineRisk */
+    relativeRisk: number;
+    /** Probability each target is a heterozygous carrier: 2pq(1 - F_target) */
+    carrierProbabilities: [number, number];
+}
+
+/**
+ * Autosomal-recessive risk for a child with inbreeding coefficient F,
+ * whose parents have inbreeding coefficients parentF
+ */
+export function calculateRecessiveRisk(
+    alleleFrequency: number,
+    F: number,
+    parentF: [number, number]
+): RecessiveRisk {
+    const q = alleleFrequency;
+    const p = 1 - q;
+
+    const baselineRisk = q * q;
+    const affectedRisk = baselineRisk + F * p * q;
+
+    return {
+        affectedRisk,
+        baselineRisk,
+        excessRisk: affectedRisk - baselineRisk,
+        relativeRisk: baselineRisk > 0 ? affectedRisk / baselineRisk : 1,
+        carrierProbabilities: [
+            2 * p * q * (1 - parentF[0]),
+            2 * p * q * (1 - parentF[1]),
+        ],
+    };
+}
+
+/**
+ * Recessive risk for a hypothetical child of the target pair
+ */
+export function calculateRecessiveRiskFromPedigree(
+    pedigree: DynamicPedigree,
+    alleleFrequency: number
+): RecessiveRisk {
+    const id1 = resolveId(pedigree.targetPair[0], pedigree.merges);
+    const id2 = resolveId(pedigree.targetPair[1], pedigree.merges);
+    const calculator = createKinshipCalculator(buildParentMap(pedigree));
+
+    return calculateRecessiveRisk(
+        alleleFrequency,
+        calculator.kinship(id1, id2),
+        [calculator.inbreeding(id1), calculator.inbreeding(id2)]
+    );
+}
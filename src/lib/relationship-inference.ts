@@ -0,0 +1,244 @@
+import type { ConsanguinityScenario, RelationshipType, Sex } from '../types';
+import {
+    addParent,
+    addRelationship,
+    buildParentMap,
+    generateBasePedigree,
+    getParents,
+    type DynamicPedigree,
+    type NodeRelationship,
+} from './dynamic-pedigree';
+import { createKinshipCalculator } from './kinship';
+import { CONSANGUINITY_SCENARIOS, RELATIONSHIP_OPTIONS } from './pedigree-templates';
+import { DEFAULT_SEGMENT_OPTIONS, simulateSegments } from './segment-simulation';
+
+/**
+ * A hypothesis for how two DNA matches are related
+ */
+export interface RelationshipCandidate {
+    id: string;
+    label: string;
+    relationship: RelationshipType | 'unrelated';
+    /** Pedigree collapse added on top of the base relationship, if any */
+    endogamy: ConsanguinityScenario | null;
+    pedigree: DynamicPedigree;
+}
+
+/**
+ * Simulated detectable sharing for a candidate, one entry per replicate
+ */
+export interface CandidateDistribution {
+    candidate: RelationshipCandidate;
+    expectedCm: number;
+    sharedCm: number[];
+    segments: number[];
+}
+
+export interface RelationshipMatch {
+    candidate: RelationshipCandidate;
+    expectedCm: number;
+    /** 5th–95th percentile of the simulated detectable total */
+    rangeCm: [number, number];
+    /** Posterior probability under a uniform prior over candidates */
+    probability: number;
+}
+
+/** Kernel bandwidth floors, so tight distributions (e.g. parent-child) still score nearby values */
+const MIN_BANDWIDTH_CM = 10;
+const MIN_BANDWIDTH_SEGMENTS = 1;
+/** Testing companies' maps and matching algorithms differ by a few percent */
+const MEASUREMENT_ERROR_FRACTION = 0.05;
+
+/** Templates `generateBasePedigree` builds with both parents of each target present */
+const TEMPLATE_RELATIONSHIPS: RelationshipType[] = ['siblings', 'first-cousins', 'double-first-cousins', 'avuncular'];
+
+function unrelatedPair(generation1: number, generation2: number): DynamicPedigree {
+    const person = (id: string, label: string, sex: Sex, generation: number) => ({ id, label, sex, generation });
+    return {
+        persons: new Map([
+            ['p1', person('p1', 'Person A', 'M', generation1)],
+            ['p2', person('p2', 'Person B', 'F', generation2)],
+        ]),
+        edges: [],
+        definedRelationships: [],
+        targetPair: ['p1', 'p2'],
+        merges: new Map(),
+    };
+}
+
+/**
+ * Build a relationship by declaring it between an unrelated pair
+ */
+function declaredPedigree(type: NodeRelationship['type'], generationGap: number): DynamicPedigree {
+    return addRelationship(unrelatedPair(0, generationGap), 'p1', 'p2', type);
+}
+
+/**
+ * Third cousins: the pair's fathers are second cousins
+ */
+function thirdCousinPedigree(): DynamicPedigree {
+    let pedigree = unrelatedPair(0, 0);
+    pedigree = addParent(pedigree, 'p1', 'M');
+    pedigree = addParent(pedigree, 'p2', 'M');
+    const father1 = getParents(pedigree, 'p1').father!;
+    const father2 = getParents(pedigree, 'p2').father!;
+    return addRelationship(pedigree, father1, father2, 'second-cousins');
+}
+
+/**
+ * Make the parents of each target related to each other (pedigree collapse).
+ * Parents already related by the first declaration (as in double first
+ * cousins, whose fathers and mothers share parents) are left as they are.
+ */
+function withRelatedParents(pedigree: DynamicPedigree, type: NodeRelationship['type']): DynamicPedigree {
+    let result = pedigree;
+    for (const target of pedigree.targetPair) {
+        const { father, mother } = getParents(result, target);
+        if (!father || !mother) continue;
+        if (createKinshipCalculator(buildParentMap(result)).kinship(father, mother) > 0) continue;
+        result = addRelationship(result, father, mother, type);
+    }
+    return result;
+}
+
+function relationshipLabel(relationship: RelationshipType | 'unrelated'): string {
+    if (relationship === 'unrelated') return 'Unrelated';
+    if (relationship === 'parent-child') return 'Parent - Child';
+    return RELATIONSHIP_OPTIONS.find(o => o.value === relationship)?.label ?? relationship;
+}
+
+/**
+ * Candidate relationships to test observed sharing against: the standard
+ * relationships plus endogamous variants of the `generateBasePedigree`
+ * templates in which each target's parents are themselves cousins
+ */
+export function buildRelationshipCandidates(): RelationshipCandidate[] {
+    const base: [RelationshipType | 'unrelated', DynamicPedigree][] = [
+        ['parent-child', declaredPedigree('parent-child', 1)],
+        ['siblings', generateBasePedigree('siblings')],
+        ['half-siblings', declaredPedigree('half-siblings', 0)],
+        ['grandparent-grandchild', declaredPedigree('grandparent-grandchild', 2)],
+        ['avuncular', generateBasePedigree('avuncular')],
+        ['double-first-cousins', generateBasePedigree('double-first-cousins')],
+        ['first-cousins', generateBasePedigree('first-cousins')],
+        ['first-cousins-once-removed', declaredPedigree('first-cousins-once-removed', 1)],
+        ['second-cousins', declaredPedigree('second-cousins', 0)],
+        ['third-cousins', thirdCousinPedigree()],
+        ['unrelated', unrelatedPair(0, 0)],
+    ];
+
+    const candidates: RelationshipCandidate[] = base.map(([relationship, pedigree]) => ({
+        id: relationship,
+        label: relationshipLabel(relationship),
+        relationship,
+        endogamy: null,
+        pedigree,
+    }));
+
+    const scenarios = CONSANGUINITY_SCENARIOS.filter(s =>
+        s.ancestorGeneration === 'parents' &&
+        (s.ancestorRelationship === 'first-cousins' || s.ancestorRelationship === 'second-cousins')
+    );
+    for (const relationship of TEMPLATE_RELATIONSHIPS) {
+        for (const scenario of scenarios) {
+            candidates.push({
+                id: `${relationship}+${scenario.id}`,
+                label: `${relationshipLabel(relationship)} (${scenario.label.toLowerCase()})`,
+                relationship,
+                endogamy: scenario,
+                pedigree: withRelatedParents(
+                    generateBasePedigree(relationship),
+                    scenario.ancestorRelationship as NodeRelationship['type']
+                ),
+            });
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Simulate the detectable shared cM and segment count of every candidate.
+ * Independent of the observation, so it only needs to run once.
+ */
+export function simulateCandidates(
+    candidates: RelationshipCandidate[],
+    replicates = 200
+): CandidateDistribution[] {
+    return candidates.map(candidate => {
+        const { shared } = simulateSegments(candidate.pedigree, { ...DEFAULT_SEGMENT_OPTIONS, replicates });
+        return {
+            candidate,
+            // Candidates are small templates, so the analytic value is always there
+            expectedCm: shared.expectedCm ?? shared.meanTotalCm,
+            sharedCm: shared.samples,
+            segments: shared.segmentSamples,
+        };
+    });
+}
+
+/**
+ * Silverman's rule-of-thumb bandwidth, bounded below
+ */
+function bandwidth(values: number[], minimum: number): number {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return Math.max(
+        1.06 * Math.sqrt(variance) * Math.pow(values.length, -0.2),
+        MEASUREMENT_ERROR_FRACTION * mean,
+        minimum
+    );
+}
+
+/**
+ * Log kernel density of the observation under a candidate's simulated sharing
+ * (Gaussian kernels; a product kernel when the segment count is given)
+ */
+function logLikelihood(distribution: CandidateDistribution, sharedCm: number, segmentCount?: number): number {
+    const { sharedCm: cmSamples, segments } = distribution;
+    if (cmSamples.length === 0) return -Infinity;
+
+    const hCm = bandwidth(cmSamples, MIN_BANDWIDTH_CM);
+    const hSegments = bandwidth(segments, MIN_BANDWIDTH_SEGMENTS);
+
+    const terms = cmSamples.map((cm, i) => {
+        let term = -0.5 * ((sharedCm - cm) / hCm) ** 2 - Math.log(hCm);
+        if (segmentCount !== undefined) {
+            term += -0.5 * ((segmentCount - segments[i]) / hSegments) ** 2 - Math.log(hSegments);
+        }
+        return term;
+    });
+
+    // log-sum-exp, so far-off candidates do not all underflow to zero
+    const max = Math.max(...terms);
+    if (max === -Infinity) return -Infinity;
+    return max + Math.log(terms.reduce((sum, t) => sum + Math.exp(t - max), 0) / terms.length);
+}
+
+/**
+ * Rank candidate relationships by how well they explain an observed shared cM
+ * total (and optionally segment count), as posterior probabilities
+ */
+export function inferRelationships(
+    distributions: CandidateDistribution[],
+    sharedCm: number,
+    segmentCount?: number
+): RelationshipMatch[] {
+    const logLikelihoods = distributions.map(d => logLikelihood(d, sharedCm, segmentCount));
+    const max = Math.max(...logLikelihoods);
+    const weights = logLikelihoods.map(l => (max === -Infinity ? 0 : Math.exp(l - max)));
+    const total = weights.reduce((a, b) => a + b, 0);
+
+    return distributions
+        .map((distribution, i) => {
+            const sorted = [...distribution.sharedCm].sort((a, b) => a - b);
+            const quantile = (p: number) => sorted.length > 0 ? sorted[Math.floor(p * (sorted.length - 1))] : 0;
+            return {
+                candidate: distribution.candidate,
+                expectedCm: distribution.expectedCm,
+                rangeCm: [quantile(0.05), quantile(0.95)] as [number, number],
+                probability: total > 0 ? weights[i] / total : 0,
+            };
+        })
+        .sort((a, b) => b.probability - a.probability);
+}
@@ -0,0 +1,276 @@
+import { buildParentMap, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+import { createDepthFunction } from './kinship';
+import { calculateIdentityCoefficients, type IdentityCoefficientsResult } from './identity-coefficients';
+import { AUTOSOME_LENGTHS_CM, DEFAULT_MIN_SEGMENT_CM, GENOME_LENGTH_CM } from './genetic-map';
+import { createRng } from './random';
+
+/**
+ * A stretch of chromosome [start, end) in cM descending from one founder haplotype
+ */
+interface Segment {
+    start: number;
+    end: number;
+    founder: number;
+}
+
+/** One haplotype per autosome */
+type Haplotype = Segment[][];
+
+/** The two haplotypes of a person */
+type Genome = [Haplotype, Haplotype];
+
+export interface SegmentSimulationOptions {
+    replicates: number;
+    /** Segments shorter than this are not counted as detectable matches */
+    minSegmentCm: number;
+    seed: number;
+}
+
+export const DEFAULT_SEGMENT_OPTIONS: SegmentSimulationOptions = {
+    replicates: 300,
+    minSegmentCm: DEFAULT_MIN_SEGMENT_CM,
+    seed: 1,
+};
+
+/**
+ * Segment statistics averaged over replicates
+ */
+export interface SegmentStats {
+    /** Analytic expectation of the total length; null when the identity coefficients are too complex */
+    expectedCm: number | null;
+    /** Mean total length, all segments */
+    meanTotalCm: number;
+    /** Mean total length of segments at or above the detection threshold */
+    meanDetectableCm: number;
+    /** 5th and 95th percentile of the detectable total */
+    detectableRangeCm: [number, number];
+    /** Mean number of detectable segments */
+    meanSegments: number;
+    /** Mean length of the longest segment */
+    meanLongestCm: number;
+    /** Fraction of replicates with no detectable segment */
+    noneDetected: number;
+    /** Detectable total per replicate */
+    samples: number[];
+    /** Detectable segment count per replicate */
+    segmentSamples: number[];
+}
+
+export interface SegmentSimulationResult {
+    /** IBD segments shared by the target pair (half- and fully identical merged) */
+    shared: SegmentStats;
+    /** Runs of homozygosity in a hypothetical child of the pair */
+    roh: SegmentStats;
+    genomeLengthCm: number;
+    options: SegmentSimulationOptions;
+}
+
+/**
+ * Distance to the next crossover under the Haldane model: crossovers form a
+ * Poisson process with one expected event per Morgan (no interference)
+ */
+function nextCrossover(random: () => number): number {
+    return -100 * Math.log(1 - random());
+}
+
+/**
+ * Append the part of a haplotype lying in [start, end) to a gamete
+ */
+function copyRange(source: Segment[], start: number, end: number, target: Segment[]) {
+    for (const segment of source) {
+        if (segment.end <= start) continue;
+        if (segment.start >= end) break;
+        const piece = {
+            start: Math.max(segment.start, start),
+            end: Math.min(segment.end, end),
+            founder: segment.founder,
+        };
+        const last = target[target.length - 1];
+        if (last && last.founder === piece.founder && last.end === piece.start) {
+            last.end = piece.end;
+        } else {
+            target.push(piece);
+        }
+    }
+}
+
+/**
+ * A recombinant gamete: start on a random parental haplotype and switch at each crossover
+ */
+function makeGamete(genome: Genome, random: () => number): Haplotype {
+    return AUTOSOME_LENGTHS_CM.map((length, chromosome) => {
+        const gamete: Segment[] = [];
+        let current = random() < 0.5 ? 0 : 1;
+        let position = 0;
+        while (position < length) {
+            const next = Math.min(position + nextCrossover(random), length);
+            copyRange(genome[current][chromosome], position, next, gamete);
+            position = next;
+            current = 1 - current;
+        }
+        return gamete;
+    });
+}
+
+function founderHaplotype(founder: number): Haplotype {
+    return AUTOSOME_LENGTHS_CM.map(length => [{ start: 0, end: length, founder }]);
+}
+
+/**
+ * Intervals where two haplotypes carry the same founder segment
+ */
+function matchingIntervals(a: Segment[], b: Segment[]): [number, number][] {
+    const intervals: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        const start = Math.max(a[i].start, b[j].start);
+        const end = Math.min(a[i].end, b[j].end);
+        if (start < end && a[i].founder === b[j].founder) intervals.push([start, end]);
+        if (a[i].end < b[j].end) i++;
+        else j++;
+    }
+    return intervals;
+}
+
+/**
+ * Merge overlapping or touching intervals into segment lengths
+ */
+function mergeIntervals(intervals: [number, number][]): number[] {
+    const sorted = [...intervals].sort((x, y) => x[0] - y[0]);
+    const lengths: number[] = [];
+    let current: [number, number] | null = null;
+    for (const [start, end] of sorted) {
+        if (current && start <= current[1]) {
+            current[1] = Math.max(current[1], end);
+        } else {
+            if (current) lengths.push(current[1] - current[0]);
+            current = [start, end];
+        }
+    }
+    if (current) lengths.push(current[1] - current[0]);
+    return lengths;
+}
+
+/**
+ * Accumulates per-replicate segment lengths into SegmentStats
+ */
+function createAccumulator(minSegmentCm: number) {
+    const totals: number[] = [];
+    const detectable: number[] = [];
+    const counts: number[] = [];
+    const longest: number[] = [];
+
+    const add = (lengths: number[]) => {
+        const kept = lengths.filter(l => l >= minSegmentCm);
+        totals.push(lengths.reduce((a, b) => a + b, 0));
+        detectable.push(kept.reduce((a, b) => a + b, 0));
+        counts.push(kept.length);
+        longest.push(lengths.length > 0 ? Math.max(...lengths) : 0);
+    };
+
+    const summarize = (expectedCm: number | null): SegmentStats => {
+        const mean = (values: number[]) =>
+            values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+        const sorted = [...detectable].sort((a, b) => a - b);
+        const quantile = (p: number) => sorted.length > 0 ? sorted[Math.floor(p * (sorted.length - 1))] : 0;
+        return {
+            expectedCm,
+            meanTotalCm: mean(totals),
+            meanDetectableCm: mean(detectable),
+            detectableRangeCm: [quantile(0.05), quantile(0.95)],
+            meanSegments: mean(counts),
+            meanLongestCm: mean(longest),
+            noneDetected: counts.length > 0 ? counts.filter(c => c === 0).length / counts.length : 0,
+            samples: detectable,
+            segmentSamples: counts,
+        };
+    };
+
+    return { add, summarize };
+}
+
+/**
+ * Simulate inheritance of whole chromosomes through the pedigree with
+ * recombination, and measure the IBD segments the target pair share and the
+ * runs of homozygosity (ROH) a child of theirs would carry.
+ * Expected totals are analytic: shared = P(IBD > 0) × genome, ROH = F × genome,
+ * from the pair's identity coefficients (pass them in when already computed),
+ * and left out when those are too complex to compute.
+ */
+export function simulateSegments(
+    pedigree: DynamicPedigree,
+    options: SegmentSimulationOptions = DEFAULT_SEGMENT_OPTIONS,
+    identity: IdentityCoefficientsResult = calculateIdentityCoefficients(pedigree)
+): SegmentSimulationResult {
+    const { replicates, minSegmentCm, seed } = options;
+    const random = createRng(seed);
+    const parentOf = buildParentMap(pedigree);
+    const parents = (id: string) => (parentOf.get(id) || []).slice(0, 2);
+    const depth = createDepthFunction(parents);
+
+    // Parents before children
+    const order = Array.from(pedigree.persons.keys())
+        .filter(id => !pedigree.merges.has(id))
+        .sort((a, b) => depth(a) - depth(b));
+    const index = new Map(order.map((id, i) => [id, i]));
+    const parentIndices = order.map(id => parents(id).map(p => index.get(p) ?? -1));
+
+    const target1 = index.get(resolveId(pedigree.targetPair[0], pedigree.merges));
+    const target2 = index.get(resolveId(pedigree.targetPair[1], pedigree.merges));
+
+    const shared = createAccumulator(minSegmentCm);
+    const roh = createAccumulator(minSegmentCm);
+
+    // Analytic expectations from the identity coefficients
+    let expectedShared: number | null = null;
+    let expectedRoh: number | null = null;
+    if (identity !== 'too-complex') {
+        const { delta, inbreedingCoefficient } = identity;
+        expectedShared = (delta[0] + delta[2] + delta[4] + delta[6] + delta[7]) * GENOME_LENGTH_CM;
+        expectedRoh = inbreedingCoefficient * GENOME_LENGTH_CM;
+    }
+
+    if (target1 !== undefined && target2 !== undefined) {
+        const genomes: Genome[] = new Array(order.length);
+        for (let rep = 0; rep < replicates; rep++) {
+            let nextFounder = 0;
+            for (let i = 0; i < order.length; i++) {
+                const haplotypes = [0, 1].map(copy => {
+                    const parent = parentIndices[i][copy] ?? -1;
+                    // A parent later in the order can only occur in cyclic input; treat as unknown
+                    return parent >= 0 && parent < i
+                        ? makeGamete(genomes[parent], random)
+                        : founderHaplotype(nextFounder++);
+                });
+                genomes[i] = [haplotypes[0], haplotypes[1]];
+            }
+
+            const g1 = genomes[target1];
+            const g2 = genomes[target2];
+            const child: Genome = [makeGamete(g1, random), makeGamete(g2, random)];
+
+            const sharedLengths: number[] = [];
+            const rohLengths: number[] = [];
+            AUTOSOME_LENGTHS_CM.forEach((_, chromosome) => {
+                const intervals: [number, number][] = [];
+                for (const h1 of g1) {
+                    for (const h2 of g2) {
+                        intervals.push(...matchingIntervals(h1[chromosome], h2[chromosome]));
+                    }
+                }
+                sharedLengths.push(...mergeIntervals(intervals));
+                rohLengths.push(...mergeIntervals(matchingIntervals(child[0][chromosome], child[1][chromosome])));
+            });
+            shared.add(sharedLengths);
+            roh.add(rohLengths);
+        }
+    }
+
+    return {
+        shared: shared.summarize(expectedShared),
+        roh: roh.summarize(expectedRoh),
+        genomeLengthCm: GENOME_LENGTH_CM,
+        options,
+    };
+}
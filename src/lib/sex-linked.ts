@@ -0,0 +1,73 @@
+import { buildParentMap, getParents, resolveId, type DynamicPedigree } from './dynamic-pedigree';
+import { createXKinshipCalculator } from './kinship';
+
+/**
+ * Standardized X-linked relatedness of the target pair, derived from the pedigree:
+ * r_X = φ_X(a, b) / √(φ_X(a, a) · φ_X(b, b)), a symmetric correlation. It reduces
+ * to 2φ_X for two non-inbred females, but differs from the conventional directional
+ * X-linked coefficients wherever a male is involved: brother-sister gives
+ * 1/√8 ≈ 0.354 (not ½) and father-daughter 1/√2 ≈ 0.707 (not 1).
+ */
+export function calculateXLinkedFromPedigree(pedigree: DynamicPedigree): number {
+    const id1 = resolveId(pedigree.targetPair[0], pedigree.merges);
+    const id2 = resolveId(pedigree.targetPair[1], pedigree.merges);
+    const calculator = createXKinshipCalculator(
+        buildParentMap(pedigree),
+        (id) => pedigree.persons.get(id)?.sex
+    );
+
+    const self1 = calculator.kinship(id1, id1);
+    const self2 = calculator.kinship(id2, id2);
+    return calculator.kinship(id1, id2) / Math.sqrt(self1 * self2);
+}
+
+/**
+ * Y-chromosome and mitochondrial lineage sharing for the target pair
+ */
+export interface LineageSharing {
+    /** Whether the pair carry the same Y chromosome (null unless both are male) */
+    yShared: boolean | null;
+    /** Whether the pair carry the same mitochondrial DNA */
+    mtShared: boolean;
+    /** Patriline of each male target, from the target up to the patrilineal founder */
+    paternalLines: string[][];
+    /** Matriline of each target, from the target up to the matrilineal founder */
+    maternalLines: string[][];
+}
+
+/**
+ * Follow father (Y) or mother (mtDNA) edges up from a person
+ */
+export function traceLineage(pedigree: DynamicPedigree, personId: string, line: 'paternal' | 'maternal'): string[] {
+    const chain = [resolveId(personId, pedigree.merges)];
+
+    for (;;) {
+        const parents = getParents(pedigree, chain[chain.length - 1]);
+        const next = line === 'paternal' ? parents.father : parents.mother;
+        if (!next || chain.includes(next)) break;
+        chain.push(next);
+    }
+
+    return chain;
+}
+
+/**
+ * Trace Y (father-to-son) and mtDNA (mother-to-child) lineages of the target pair.
+ * Two lineages are shared when they meet in a common ancestor.
+ */
+export function calculateLineageSharing(pedigree: DynamicPedigree): LineageSharing {
+    const targets = pedigree.targetPair.map(id => resolveId(id, pedigree.merges));
+    const meet = ([line1, line2]: string[][]) => line1.some(id => line2.includes(id));
+
+    const maternalLines = targets.map(id => traceLineage(pedigree, id, 'maternal'));
+    const paternalLines = targets
+        .filter(id => pedigree.persons.get(id)?.sex === 'M')
+        .map(id => traceLineage(pedigree, id, 'paternal'));
+
+    return {
+        yShared: paternalLines.length === 2 ? meet(paternalLines) : null,
+        mtShared: meet(maternalLines),
+        paternalLines,
+        maternalLines,
+    };
+}
@@ -0,0 +1,177 @@
+import type { DrawingContext } from './pedigree-drawing';
+
+interface SvgState {
+    fillStyle: string;
+    strokeStyle: string;
+    lineWidth: number;
+    font: string;
+    textAlign: CanvasTextAlign;
+    textBaseline: CanvasTextBaseline;
+    lineDash: number[];
+    shadowColor: string;
+    shadowBlur: number;
+    /** Active clip path, if any */
+    clipId: string | null;
+}
+
+export interface SvgRecorder {
+    /** Draw on this like on a canvas */
+    context: DrawingContext;
+    /** The recorded drawing as a standalone SVG document */
+    toSvg(width: number, height: number): string;
+}
+
+const TEXT_ANCHORS: Partial<Record<CanvasTextAlign, string>> = {
+    center: 'middle',
+    right: 'end',
+    end: 'end',
+};
+
+const BASELINES: Partial<Record<CanvasTextBaseline, string>> = {
+    middle: 'middle',
+    top: 'hanging',
+    hanging: 'hanging',
+    bottom: 'text-after-edge',
+};
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * A recording 2D context that turns the canvas calls used by drawPedigree
+ * into SVG elements, with colours written out literally so the file stands alone
+ */
+export function createSvgContext(): SvgRecorder {
+    let state: SvgState = {
+        fillStyle: '#000',
+        strokeStyle: '#000',
+        lineWidth: 1,
+        font: '10px sans-serif',
+        textAlign: 'start',
+        textBaseline: 'alphabetic',
+        lineDash: [],
+        shadowColor: 'transparent',
+        shadowBlur: 0,
+        clipId: null,
+    };
+    const stack: SvgState[] = [];
+    const elements: string[] = [];
+    const defs: string[] = [];
+    let path = '';
+
+    const clipAttribute = () => (state.clipId ? ` clip-path="url(#${state.clipId})"` : '');
+    const shadowAttribute = () => (state.shadowBlur > 0
+        ? ` style="filter: drop-shadow(0 0 ${num(state.shadowBlur / 2)}px ${state.shadowColor})"`
+        : '');
+
+    const context: DrawingContext = {
+        get fillStyle() { return state.fillStyle; },
+        set fillStyle(value) { state.fillStyle = String(value); },
+        get strokeStyle() { return state.strokeStyle; },
+        set strokeStyle(value) { state.strokeStyle = String(value); },
+        get lineWidth() { return state.lineWidth; },
+        set lineWidth(value) { state.lineWidth = value; },
+        get font() { return state.font; },
+        set font(value) { state.font = value; },
+        get textAlign() { return state.textAlign; },
+        set textAlign(value) { state.textAlign = value; },
+        get textBaseline() { return state.textBaseline; },
+        set textBaseline(value) { state.textBaseline = value; },
+        get shadowColor() { return state.shadowColor; },
+        set shadowColor(value) { state.shadowColor = value; },
+        get shadowBlur() { return state.shadowBlur; },
+        set shadowBlur(value) { state.shadowBlur = value; },
+
+        beginPath() {
+            path = '';
+        },
+        moveTo(x: number, y: number) {
+            path += `M${num(x)} ${num(y)}`;
+        },
+        lineTo(x: number, y: number) {
+            path += `L${num(x)} ${num(y)}`;
+        },
+        closePath() {
+            path += 'Z';
+        },
+        rect(x: number, y: number, width: number, height: number) {
+            path += `M${num(x)} ${num(y)}h${num(width)}v${num(height)}h${num(-width)}Z`;
+        },
+        arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+            const point = (angle: number) => `${num(x + radius * Math.cos(angle))} ${num(y + radius * Math.sin(angle))}`;
+            // Canvas angles run clockwise on screen, which is SVG's positive sweep
+            const sweep = counterclockwise ? 0 : 1;
+            let span = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+            path += `${path ? 'L' : 'M'}${point(startAngle)}`;
+
+            if (span >= Math.PI * 2) {
+                // A full circle needs two half arcs
+                const middle = startAngle + (counterclockwise ? -Math.PI : Math.PI);
+                path += `A${num(radius)} ${num(radius)} 0 0 ${sweep} ${point(middle)}`;
+                path += `A${num(radius)} ${num(radius)} 0 0 ${sweep} ${point(startAngle)}`;
+                return;
+            }
+            span = ((span % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+            path += `A${num(radius)} ${num(radius)} 0 ${span > Math.PI ? 1 : 0} ${sweep} ${point(endAngle)}`;
+        },
+
+        fill() {
+            elements.push(`<path d="${path}" fill="${state.fillStyle}"${clipAttribute()}${shadowAttribute()}/>`);
+        },
+        stroke() {
+            const dash = state.lineDash.length > 0 ? ` stroke-dasharray="${state.lineDash.join(' ')}"` : '';
+            elements.push(
+                `<path d="${path}" fill="none" stroke="${state.strokeStyle}" stroke-width="${num(state.lineWidth)}"${dash}${clipAttribute()}/>`
+            );
+        },
+        fillRect(x: number, y: number, width: number, height: number) {
+            elements.push(
+                `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="${state.fillStyle}"${clipAttribute()}/>`
+            );
+        },
+        fillText(text: string, x: number, y: number) {
+            const anchor = TEXT_ANCHORS[state.textAlign];
+            const baseline = BASELINES[state.textBaseline];
+            elements.push(
+                `<text x="${num(x)}" y="${num(y)}" fill="${state.fillStyle}" style="font: ${escapeXml(state.font)}"`
+                + (anchor ? ` text-anchor="${anchor}"` : '')
+                + (baseline ? ` dominant-baseline="${baseline}"` : '')
+                + `${clipAttribute()}>${escapeXml(text)}</text>`
+            );
+        },
+        setLineDash(segments: Iterable<number>) {
+            state.lineDash = Array.from(segments);
+        },
+        clip() {
+            const id = `clip${defs.length + 1}`;
+            defs.push(`<clipPath id="${id}"${clipAttribute()}><path d="${path}"/></clipPath>`);
+            state.clipId = id;
+        },
+        save() {
+            stack.push({ ...state, lineDash: [...state.lineDash] });
+        },
+        restore() {
+            state = stack.pop() ?? state;
+        },
+    };
+
+    return {
+        context,
+        toSvg(width: number, height: number) {
+            return [
+                `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+                ...(defs.length > 0 ? ['<defs>', ...defs, '</defs>'] : []),
+                ...elements,
+                '</svg>',
+                '',
+            ].join('\n');
+        },
+    };
+}
@@ -0,0 +1,49 @@
+import { deserializeProject, serializeProject, type Project, type ProjectLoadResult } from './project-file';
+
+/** Hash parameter holding the encoded project: `#p=...` */
+const HASH_KEY = 'p';
+
+/**
+ * Run bytes through a (de)compression stream
+ */
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Encode a project as a URL hash: the compact project JSON, deflated and base64url-encoded
+ */
+export async function projectToHash(project: Project): Promise<string> {
+    const json = new TextEncoder().encode(serializeProject(project, true));
+    const compressed = await transform(json, new CompressionStream('deflate-raw'));
+    return `#${HASH_KEY}=${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode a URL hash written by projectToHash. Returns null when the hash holds no project.
+ */
+export async function projectFromHash(hash: string): Promise<ProjectLoadResult | null> {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+    if (!encoded) return null;
+
+    try {
+        const json = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+        return deserializeProject(new TextDecoder().decode(json));
+    } catch {
+        return { project: null, errors: ['The link is damaged or incomplete'] };
+    }
+}
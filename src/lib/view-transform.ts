@@ -0,0 +1,76 @@
+/**
+ * Zoom and pan of a drawing: screen = world × scale + offset
+ */
+export interface ViewTransform {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 4;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export function screenToWorld(view: ViewTransform, x: number, y: number): { x: number; y: number } {
+    return { x: (x - view.offsetX) / view.scale, y: (y - view.offsetY) / view.scale };
+}
+
+/**
+ * Bounding box of a set of points, grown by a margin on every side
+ */
+export function boundsOf(points: Iterable<{ x: number; y: number }>, margin: number): Bounds {
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const { x, y } of points) {
+        bounds.minX = Math.min(bounds.minX, x - margin);
+        bounds.minY = Math.min(bounds.minY, y - margin);
+        bounds.maxX = Math.max(bounds.maxX, x + margin);
+        bounds.maxY = Math.max(bounds.maxY, y + margin);
+    }
+    return Number.isFinite(bounds.minX) ? bounds : { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+}
+
+/**
+ * Centre the bounds in a viewport, as large as fits but no larger than maxScale
+ */
+export function fitView(bounds: Bounds, width: number, height: number, maxScale = MAX_SCALE): ViewTransform {
+    const boundsWidth = Math.max(1, bounds.maxX - bounds.minX);
+    const boundsHeight = Math.max(1, bounds.maxY - bounds.minY);
+    const scale = clampScale(Math.min(width / boundsWidth, height / boundsHeight, maxScale));
+    return {
+        scale,
+        offsetX: (width - boundsWidth * scale) / 2 - bounds.minX * scale,
+        offsetY: (height - boundsHeight * scale) / 2 - bounds.minY * scale,
+    };
+}
+
+/**
+ * Zoom by a factor, keeping the world point under (x, y) fixed on screen
+ */
+export function zoomAt(view: ViewTransform, factor: number, x: number, y: number): ViewTransform {
+    const scale = clampScale(view.scale * factor);
+    const ratio = scale / view.scale;
+    return {
+        scale,
+        offsetX: x - (x - view.offsetX) * ratio,
+        offsetY: y - (y - view.offsetY) * ratio,
+    };
+}
+
+/**
+ * Pan so that a world point sits at the centre of the viewport
+ */
+export function centerOn(view: ViewTransform, x: number, y: number, width: number, height: number): ViewTransform {
+    return {
+        scale: view.scale,
+        offsetX: width / 2 - x * view.scale,
+        offsetY: height / 2 - y * view.scale,
+    };
+}
@@ -1,15 +1,26 @@
 export type Sex = 'M' | 'F';
 
+export type PhenotypeStatus = 'affected' | 'carrier' | 'unaffected' | 'unknown';
+
 export interface Person {
   id: string;
   label: string;
   sex: Sex;
   generation: number;
+  /** Manual position in layout units (x: node slots, y: generation row); unset means automatic */
   x?: number;
   y?: number;
   motherId?: string;
   fatherId?: string;
   inbreedingCoefficient?: number;
+  status?: PhenotypeStatus;
+  /** Sex was not recorded; `sex` holds the assumption used in calculations */
+  sexUnknown?: boolean;
+  deceased?: boolean;
+  /** The individual through whom the family came to attention */
+  proband?: boolean;
+  /** Family (pedigree) ID from PLINK/LINKAGE files */
+  familyId?: string;
 }
 
 export interface ParentChildEdge {
@@ -55,16 +66,44 @@ export interface AncestorPath {
   steps: number;
 }
 
+/**
+ * An ancestral path with its share of r: (½)^n(1 + F_A), n = steps
+ */
+export interface ContributingPath extends AncestorPath {
+  /** Inbreeding coefficient F_A of the common ancestor */
+  ancestorInbreeding: number;
+  contribution: number;
+}
+
 export interface ProbabilityResult {
   coefficientOfRelationship: number;
   geneOverlapProbability: number;
   inbreedingCoefficient: number;
+  /** Standardized (symmetric) X-linked relatedness r_X, see calculateXLinkedFromPedigree */
   xLinkedCoefficient: number | null;
   yLinkedCoefficient: number | null;
+  mitochondrialCoefficient: number | null;
+  /** 'too-complex' when the pedigree is too interlinked to compute them */
+  identityCoefficients: IdentityCoefficients | 'too-complex' | null;
   baselineR: number;
   deltaFromBaseline: number;
 }
 
+export interface IdentityCoefficients {
+  /** Jacquard's condensed identity coefficients Δ1..Δ9 */
+  delta: number[];
+  /** IBD0/IBD1/IBD2 probabilities (Δ9, Δ8, Δ7; exact only when neither is inbred) */
+  k0: number;
+  k1: number;
+  k2: number;
+  /** Whether either person is inbred (any of Δ1..Δ6 non-zero) */
+  isInbred: boolean;
+  /** r = 2φ with φ = Δ1 + ½(Δ3 + Δ5 + Δ7) + ¼Δ8 */
+  coefficientOfRelationship: number;
+  /** F of an offspring of the pair, equal to φ */
+  inbreedingCoefficient: number;
+}
+
 export interface ConsanguinityScenario {
   id: string;
   label: string;